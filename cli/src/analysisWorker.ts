@@ -0,0 +1,11 @@
+import { parentPort, workerData } from 'worker_threads';
+import { FeatureIndex, parseTargets } from '@baseline/core';
+import { WorkerInput, analyzeFileContent } from './analyzer';
+
+// Worker thread started by ProjectAnalyzer: analyzes its share of the files
+// with a copy of the feature index and posts the results back in order
+const { tables, version, targets, jobs } = workerData as WorkerInput;
+const index = FeatureIndex.fromTables(tables, version);
+const browserTargets = parseTargets(targets);
+
+parentPort?.postMessage(jobs.map(job => analyzeFileContent(job, index, browserTargets)));
@@ -1,232 +1,508 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { Worker } from 'worker_threads';
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import chalk from 'chalk';
+import { ChangedLines, LineRange, isLineChanged } from './git';
+import {
+  BaselineFeature,
+  BaselineStatus,
+  BrowserSupport,
+  BrowserTargets,
+  FeatureIndex,
+  LineMap,
+  SourceLanguage,
+  SuppressionKind,
+  FeatureTables,
+  analyzeSourceWithSuppressions,
+  calculateScore,
+  DEFAULT_CONFIG,
+  countByStatus,
+  languageForFile
+} from '@baseline/core';
 
 export interface AnalysisResult {
+  // Directory that was analyzed, which file paths can be made relative to
+  projectPath: string;
   totalFiles: number;
   cssFiles: number;
   jsFiles: number;
   baselineCount: number;
+  // Not Baseline, but only used behind a feature check
+  guardedCount: number;
   limitedCount: number;
   nonBaselineCount: number;
   baselineScore: number;
+  // Target query the statuses were evaluated against, if any
+  targets?: string;
   cssFeatures: FeatureUsage[];
   jsFeatures: FeatureUsage[];
   fileResults: FileResult[];
+  // Every suppression comment found, for auditing
+  suppressions: SuppressionEntry[];
 }
 
 export interface FeatureUsage {
   name: string;
   feature: string;
-  status: 'baseline' | 'limited' | 'not-baseline';
-  count: number;
+  status: BaselineStatus;
+  description: string;
+  mdnUrl?: string;
+  specUrl?: string;
+  browserSupport: BrowserSupport; // first version of each browser with support
+  count: number; // files using the feature
   files: string[];
+  locations: Array<Pick<UsageLocation, 'file' | 'line' | 'column'>>;
+}
+
+/**
+ * Where a feature is used. Lines and columns are one-based, and the end
+ * column is exclusive.
+ */
+export interface UsageLocation {
+  file: string;
+  feature: string; // feature id
+  name: string; // what was detected, e.g. 'container-type' or 'navigator.share'
+  status: BaselineStatus;
+  guarded?: boolean;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  snippet: string; // the source line, trimmed
+  // Hash of what was detected and the code around it, which survives the
+  // usage moving to another line
+  fingerprint: string;
+}
+
+export interface SuppressionEntry {
+  file: string;
+  line: number; // one-based
+  kind: SuppressionKind;
+  names: string[];
+  reason?: string;
+  // Ids of the features it silenced
+  features: string[];
 }
 
 export interface FileResult {
   file: string;
   language: 'css' | 'js';
   baselineCount: number;
+  guardedCount: number;
   limitedCount: number;
   nonBaselineCount: number;
   features: string[];
+  usages: UsageLocation[];
+  suppressions: SuppressionEntry[];
 }
 
 export interface AnalyzeOptions {
   cssOnly?: boolean;
   jsOnly?: boolean;
   verbose?: boolean;
+  // Globs of files to analyze and to skip, relative to the project path
+  include?: string[];
+  ignore?: string[];
+  // Only report usages on these lines, e.g. the ones a branch changed
+  changedLines?: ChangedLines;
+  // Worker threads to analyze with (one per CPU core by default, 0 to stay
+  // on the main thread). Small batches always stay on the main thread.
+  workers?: number;
+  // Directory to keep results in between runs, so unchanged files are skipped
+  cacheDir?: string;
+  // Files known to have changed since the last call, e.g. from a file
+  // watcher. Other files keep their last results without being listed, read
+  // or hashed again; include and ignore must be the same as last time.
+  changedFiles?: string[];
 }
 
+/**
+ * Counts and timings, in milliseconds, of one analyze() call
+ */
+export interface AnalysisStats {
+  files: number;
+  cached: number; // results reused because the file didn't change
+  analyzed: number;
+  workers: number; // 0 when files were analyzed on the main thread
+  timings: {
+    find: number;
+    read: number; // reading and hashing files that may have changed
+    analyze: number;
+    aggregate: number;
+    cache: number; // loading and saving the persistent cache
+  };
+}
+
+/**
+ * One file to analyze. Jobs carry the file's content so workers don't read
+ * it a second time.
+ */
+export interface AnalysisJob {
+  file: string;
+  language: SourceLanguage;
+  content: string;
+}
+
+/**
+ * A file's result, with the details of the features it uses so results from
+ * workers and the cache can fill in feature names and links
+ */
+export interface FileAnalysis {
+  result: FileResult;
+  features: FeatureEntry[];
+}
+
+interface FeatureEntry {
+  feature: BaselineFeature;
+  status: BaselineStatus;
+}
+
+interface CachedFile {
+  hash: string;
+  // For the whole file; narrowing to changed lines happens after, so a run
+  // on a diff leaves entries a full run can use
+  result: FileResult;
+}
+
+// What a worker is started with; see analysisWorker.ts
+export interface WorkerInput {
+  tables: FeatureTables;
+  version: string;
+  targets?: string;
+  jobs: AnalysisJob[];
+}
+
+// Bump when the shape or content of file results changes, to drop old caches
+const CACHE_VERSION = 3;
+
+const CACHE_FILE = 'analysis.json';
+
+// Starting a worker, which loads the TypeScript parser and a copy of the
+// feature index, costs about as much as analyzing this many files
+const MIN_FILES_PER_WORKER = 250;
+
 export class ProjectAnalyzer {
   private projectPath: string;
-  
-  // Mock Baseline data (same as VS Code extension)
-  private baselineData = {
-    css: {
-      'display': 'baseline',
-      'flex': 'baseline',
-      'flex-direction': 'baseline',
-      'flex-wrap': 'baseline',
-      'justify-content': 'baseline',
-      'align-items': 'baseline',
-      'gap': 'baseline',
-      'grid': 'baseline',
-      'grid-template-columns': 'baseline',
-      'grid-template-rows': 'baseline',
-      'position': 'baseline',
-      'backdrop-filter': 'baseline',
-      'transform': 'baseline',
-      'container-type': 'limited',
-      'container-name': 'limited',
-      'container': 'limited'
-    },
-    js: {
-      'fetch': 'baseline',
-      'Promise': 'baseline',
-      'async': 'baseline',
-      'await': 'baseline',
-      'IntersectionObserver': 'baseline',
-      'ResizeObserver': 'baseline',
-      'MutationObserver': 'baseline',
-      'localStorage': 'baseline',
-      'crypto': 'baseline',
-      'BroadcastChannel': 'baseline',
-      'navigator.share': 'limited',
-      'document.startViewTransition': 'limited'
-    }
-  };
+  private index: FeatureIndex;
+  private targets?: BrowserTargets;
+
+  // Every feature seen, with its status, keyed by feature id
+  private featureStatus = new Map<string, FeatureEntry>();
 
-  constructor(projectPath: string) {
+  // Last result for each file, with a hash of what it was computed from, so
+  // analyzing again only redoes files that changed
+  private fileCache = new Map<string, CachedFile>();
+  // Each result narrowed to the changed lines it was last checked against,
+  // so files that didn't change keep their result object between runs
+  private narrowed = new WeakMap<FileResult, { lines: string; result: FileResult }>();
+  private loadedCacheDir?: string;
+
+  // Every file include and ignore matched last time, before narrowing to
+  // changed lines, for callers that say which files changed
+  private listing?: string[];
+
+  private stats?: AnalysisStats;
+
+  constructor(
+    projectPath: string,
+    index: FeatureIndex = FeatureIndex.fromWebFeatures(),
+    targets?: BrowserTargets
+  ) {
     this.projectPath = path.resolve(projectPath);
+    this.index = index;
+    this.targets = targets;
   }
 
   async analyze(options: AnalyzeOptions = {}): Promise<AnalysisResult> {
-    const cssFiles = await this.findFiles('**/*.{css,scss,less}', options);
-    const jsFiles = await this.findFiles('**/*.{js,ts,jsx,tsx}', options);
-
-    const fileResults: FileResult[] = [];
-    let totalBaseline = 0;
-    let totalLimited = 0;
-    let totalNonBaseline = 0;
-
-    // Analyze CSS files
-    if (!options.jsOnly) {
-      for (const file of cssFiles) {
-        const result = await this.analyzeCSSFile(file, options.verbose);
-        fileResults.push(result);
-        totalBaseline += result.baselineCount;
-        totalLimited += result.limitedCount;
-        totalNonBaseline += result.nonBaselineCount;
+    let time = Date.now();
+    const lap = () => {
+      const now = Date.now();
+      const elapsed = now - time;
+      time = now;
+      return elapsed;
+    };
+
+    const files = await this.findFiles(options);
+    const find = lap();
+
+    if (options.cacheDir && options.cacheDir !== this.loadedCacheDir) {
+      this.loadCache(options.cacheDir);
+    }
+    let cacheTime = lap();
+
+    // Forget files that are gone, but not ones a diff left out, so a run
+    // with --since or --staged keeps the cache of the whole project
+    const listed = new Set(this.listing);
+    for (const file of this.fileCache.keys()) {
+      if (!listed.has(file)) {
+        this.fileCache.delete(file);
       }
     }
 
-    // Analyze JavaScript files
-    if (!options.cssOnly) {
-      for (const file of jsFiles) {
-        const result = await this.analyzeJSFile(file, options.verbose);
-        fileResults.push(result);
-        totalBaseline += result.baselineCount;
-        totalLimited += result.limitedCount;
-        totalNonBaseline += result.nonBaselineCount;
+    const cssFiles = files.filter(file => languageForFile(file) === 'css');
+    const jsFiles = files.filter(file => languageForFile(file) === 'js');
+
+    // CSS files first, then JavaScript
+    const selected = [
+      ...(options.jsOnly ? [] : cssFiles.map(file => ({ file, language: 'css' as const }))),
+      ...(options.cssOnly ? [] : jsFiles.map(file => ({ file, language: 'js' as const })))
+    ];
+
+    // Reuse results for files whose content hasn't changed
+    const changedFiles = options.changedFiles && new Set(options.changedFiles);
+    const fileResults: FileResult[] = new Array(selected.length);
+    const jobs: Array<{ position: number; hash: string; job: AnalysisJob }> = [];
+    selected.forEach(({ file, language }, position) => {
+      const cached = this.fileCache.get(file);
+      // Files the caller didn't report are trusted as is
+      if (changedFiles && !changedFiles.has(file) && cached) {
+        fileResults[position] = cached.result;
+        return;
       }
+
+      const content = fs.readFileSync(file, 'utf-8');
+      const hash = crypto.createHash('sha1').update(content).digest('hex');
+      if (cached && cached.hash === hash) {
+        fileResults[position] = cached.result;
+      } else {
+        jobs.push({ position, hash, job: { file, language, content } });
+      }
+    });
+    const read = lap();
+
+    const workers = this.countWorkers(jobs.length, options.workers);
+    const analyses = workers > 0
+      ? await this.analyzeInWorkers(jobs.map(({ job }) => job), workers)
+      : jobs.map(({ job }) => analyzeFileContent(job, this.index, this.targets));
+
+    analyses.forEach(({ result, features }, i) => {
+      features.forEach(entry => this.featureStatus.set(entry.feature.id, entry));
+      this.fileCache.set(result.file, { hash: jobs[i].hash, result });
+      fileResults[jobs[i].position] = result;
+
+      if (options.verbose && result.features.length > 0) {
+        const label = result.language === 'css' ? 'features' : 'APIs';
+        console.log(chalk.dim(`  ${path.relative(this.projectPath, result.file)}: ${result.features.length} ${label}`));
+      }
+    });
+    const changedLines = options.changedLines;
+    if (changedLines) {
+      fileResults.forEach((result, position) => {
+        fileResults[position] = this.narrow(result, changedLines.get(result.file) || []);
+      });
     }
+    const analyze = lap();
 
-    const totalFeatures = totalBaseline + totalLimited + totalNonBaseline;
-    const baselineScore = totalFeatures > 0 
-      ? Math.round((totalBaseline / totalFeatures) * 100) 
-      : 100;
+    const counts = { baseline: 0, guarded: 0, limited: 0, nonBaseline: 0 };
+    for (const result of fileResults) {
+      counts.baseline += result.baselineCount;
+      counts.guarded += result.guardedCount;
+      counts.limited += result.limitedCount;
+      counts.nonBaseline += result.nonBaselineCount;
+    }
+
+    const baselineScore = calculateScore(counts);
 
     // Aggregate feature usage
     const cssFeatures = this.aggregateFeatures(fileResults.filter(f => f.language === 'css'));
     const jsFeatures = this.aggregateFeatures(fileResults.filter(f => f.language === 'js'));
+    const aggregate = lap();
+
+    if (options.cacheDir && jobs.length > 0) {
+      this.saveCache(options.cacheDir);
+    }
+    cacheTime += lap();
+
+    this.stats = {
+      files: selected.length,
+      cached: selected.length - jobs.length,
+      analyzed: jobs.length,
+      workers,
+      timings: { find, read, analyze, aggregate, cache: cacheTime }
+    };
 
     return {
+      projectPath: this.projectPath,
       totalFiles: cssFiles.length + jsFiles.length,
       cssFiles: cssFiles.length,
       jsFiles: jsFiles.length,
-      baselineCount: totalBaseline,
-      limitedCount: totalLimited,
-      nonBaselineCount: totalNonBaseline,
+      baselineCount: counts.baseline,
+      guardedCount: counts.guarded,
+      limitedCount: counts.limited,
+      nonBaselineCount: counts.nonBaseline,
       baselineScore,
+      targets: this.targets?.query,
       cssFeatures,
       jsFeatures,
-      fileResults
+      fileResults,
+      suppressions: fileResults.flatMap(result => result.suppressions)
     };
   }
 
-  private async findFiles(pattern: string, options: AnalyzeOptions): Promise<string[]> {
-    const files = await glob(pattern, {
-      cwd: this.projectPath,
-      ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'],
-      absolute: false
-    });
+  /**
+   * Whether include and ignore pick out a file, so changes to others, like
+   * build output, can be skipped without listing the project again
+   */
+  isIncluded(file: string, options: Pick<AnalyzeOptions, 'include' | 'ignore'> = {}): boolean {
+    const relative = path.relative(this.projectPath, file).split(path.sep).join('/');
+    const matches = (patterns: string[]) => patterns.some(pattern => minimatch(relative, pattern));
+    return matches(options.include || DEFAULT_CONFIG.include) && !matches(options.ignore || DEFAULT_CONFIG.ignore);
+  }
 
-    return files.map(f => path.join(this.projectPath, f));
+  /**
+   * Counts and timings of the last analysis, for --verbose output
+   */
+  getStats(): AnalysisStats | undefined {
+    return this.stats;
   }
 
-  private async analyzeCSSFile(filePath: string, verbose?: boolean): Promise<FileResult> {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const propertyRegex = /([\w-]+)\s*:\s*([^;]+);/g;
-    
-    const features = new Set<string>();
-    let baselineCount = 0;
-    let limitedCount = 0;
-    let nonBaselineCount = 0;
-
-    let match;
-    while ((match = propertyRegex.exec(content)) !== null) {
-      const property = match[1];
-      const status = this.baselineData.css[property as keyof typeof this.baselineData.css];
-
-      if (status) {
-        features.add(property);
-        if (status === 'baseline') baselineCount++;
-        else if (status === 'limited') limitedCount++;
-        else nonBaselineCount++;
-      }
+  private async findFiles(options: AnalyzeOptions): Promise<string[]> {
+    let found = options.changedFiles && this.listing && this.updateListing(this.listing, options.changedFiles, options);
+    if (!found) {
+      const files = await glob(options.include || DEFAULT_CONFIG.include, {
+        cwd: this.projectPath,
+        ignore: options.ignore || DEFAULT_CONFIG.ignore,
+        nodir: true,
+        absolute: false
+      });
+      found = files.sort().map(f => path.join(this.projectPath, f));
     }
+    this.listing = found;
 
-    if (verbose && features.size > 0) {
-      console.log(chalk.dim(`  ${path.relative(this.projectPath, filePath)}: ${features.size} features`));
+    const changed = options.changedLines;
+    return changed ? found.filter(file => changed.has(file)) : found;
+  }
+
+  /**
+   * The part of a result on the given lines. Suppressions and counts follow
+   * the usages that are left.
+   */
+  private narrow(result: FileResult, ranges: LineRange[]): FileResult {
+    const lines = JSON.stringify(ranges);
+    const previous = this.narrowed.get(result);
+    if (previous && previous.lines === lines) {
+      return previous.result;
     }
 
-    return {
-      file: filePath,
-      language: 'css',
-      baselineCount,
-      limitedCount,
-      nonBaselineCount,
-      features: Array.from(features)
+    const usages = result.usages.filter(usage => isLineChanged(ranges, usage.line));
+    const counts = countByStatus(usages);
+
+    const narrowed: FileResult = {
+      ...result,
+      baselineCount: counts.baseline,
+      guardedCount: counts.guarded,
+      limitedCount: counts.limited,
+      nonBaselineCount: counts.nonBaseline,
+      features: Array.from(new Set(usages.map(usage => usage.feature))),
+      usages,
+      suppressions: result.suppressions.filter(suppression => isLineChanged(ranges, suppression.line))
     };
+    this.narrowed.set(result, { lines, result: narrowed });
+    return narrowed;
   }
 
-  private async analyzeJSFile(filePath: string, verbose?: boolean): Promise<FileResult> {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    
-    const patterns = [
-      /\b(fetch|localStorage|crypto)\b/g,
-      /\b(IntersectionObserver|ResizeObserver|MutationObserver)\b/g,
-      /\b(Promise)\b/g,
-      /\basync\s+function/g,
-      /\bawait\s+/g,
-      /navigator\.(share)/g,
-      /document\.(startViewTransition)/g
-    ];
+  /**
+   * The last listing without changed files that were deleted, and with new
+   * ones include and ignore pick out
+   */
+  private updateListing(listing: string[], changedFiles: string[], options: AnalyzeOptions): string[] {
+    const listed = new Set(listing);
+    const deleted = new Set<string>();
+    const added = new Set<string>();
+    for (const file of changedFiles) {
+      const exists = fs.existsSync(file);
+      if (!exists && listed.has(file)) {
+        deleted.add(file);
+      } else if (exists && !listed.has(file) && fs.statSync(file).isFile() && this.isIncluded(file, options)) {
+        added.add(file);
+      }
+    }
+    if (deleted.size === 0 && added.size === 0) {
+      return listing;
+    }
+    return [...listing.filter(file => !deleted.has(file)), ...added].sort();
+  }
+
+  private countWorkers(jobs: number, requested = os.cpus().length): number {
+    const workers = Math.min(requested, Math.floor(jobs / MIN_FILES_PER_WORKER));
+    // One worker would only move the work off the main thread
+    return workers > 1 ? workers : 0;
+  }
 
-    const features = new Set<string>();
-    let baselineCount = 0;
-    let limitedCount = 0;
-    let nonBaselineCount = 0;
-
-    patterns.forEach(pattern => {
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        const api = match[1] || 'async';
-        const status = this.baselineData.js[api as keyof typeof this.baselineData.js];
-
-        if (status) {
-          features.add(api);
-          if (status === 'baseline') baselineCount++;
-          else if (status === 'limited') limitedCount++;
-          else nonBaselineCount++;
+  /**
+   * Split the jobs between worker threads, each with its own copy of the
+   * feature index, and return their results in job order
+   */
+  private async analyzeInWorkers(jobs: AnalysisJob[], workers: number): Promise<FileAnalysis[]> {
+    const tables = this.index.toTables();
+    const chunkSize = Math.ceil(jobs.length / workers);
+    const chunks = Array.from({ length: workers }, (_, i) => jobs.slice(i * chunkSize, (i + 1) * chunkSize));
+
+    const results = await Promise.all(chunks.map(chunk => new Promise<FileAnalysis[]>((resolve, reject) => {
+      const workerData: WorkerInput = { tables, version: this.index.version, targets: this.targets?.query, jobs: chunk };
+      const worker = new Worker(path.join(__dirname, 'analysisWorker.js'), { workerData });
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      worker.once('exit', code => {
+        if (code !== 0) {
+          reject(new Error(`Analysis worker stopped with exit code ${code}`));
         }
+      });
+    })));
+
+    return results.flat();
+  }
+
+  /**
+   * Restore results saved by an earlier run. A cache written by another
+   * build of the detectors, for other feature data or targets, or in an
+   * older format is ignored.
+   */
+  private loadCache(cacheDir: string): void {
+    this.loadedCacheDir = cacheDir;
+    const file = path.join(cacheDir, CACHE_FILE);
+    if (!fs.existsSync(file)) {
+      return;
+    }
+
+    try {
+      const cache = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (cache.version !== this.getCacheVersion()) {
+        return;
       }
-    });
 
-    if (verbose && features.size > 0) {
-      console.log(chalk.dim(`  ${path.relative(this.projectPath, filePath)}: ${features.size} APIs`));
+      for (const entry of Object.values(cache.features) as FeatureEntry[]) {
+        this.featureStatus.set(entry.feature.id, entry);
+      }
+      for (const [filePath, cached] of Object.entries(cache.files) as Array<[string, CachedFile]>) {
+        this.fileCache.set(filePath, cached);
+      }
+    } catch {
+      // A broken cache only costs analyzing every file again
     }
+  }
 
-    return {
-      file: filePath,
-      language: 'js',
-      baselineCount,
-      limitedCount,
-      nonBaselineCount,
-      features: Array.from(features)
-    };
+  private saveCache(cacheDir: string): void {
+    try {
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(path.join(cacheDir, CACHE_FILE), JSON.stringify({
+        version: this.getCacheVersion(),
+        features: Object.fromEntries(this.featureStatus),
+        files: Object.fromEntries(this.fileCache)
+      }), 'utf-8');
+    } catch (error) {
+      console.error(chalk.yellow(`Could not write the analysis cache: ${error instanceof Error ? error.message : error}`));
+    }
+  }
+
+  // Results depend on the code that found the usages, the feature data and
+  // the targets statuses were evaluated against
+  private getCacheVersion(): string {
+    return `${CACHE_VERSION}:${getDetectorBuild()}:${this.index.version}:${this.targets?.query || ''}`;
   }
 
   private aggregateFeatures(results: FileResult[]): FeatureUsage[] {
@@ -235,20 +511,27 @@ export class ProjectAnalyzer {
     results.forEach(result => {
       result.features.forEach(feature => {
         const existing = featureMap.get(feature);
-        const status = (result.language === 'css' 
-          ? this.baselineData.css[feature as keyof typeof this.baselineData.css]
-          : this.baselineData.js[feature as keyof typeof this.baselineData.js]) as any;
+        const known = this.featureStatus.get(feature);
+        const locations = result.usages
+          .filter(usage => usage.feature === feature)
+          .map(({ file, line, column }) => ({ file, line, column }));
 
         if (existing) {
           existing.count++;
           existing.files.push(result.file);
+          existing.locations.push(...locations);
         } else {
           featureMap.set(feature, {
-            name: feature,
+            name: known?.feature.name || feature,
             feature,
-            status: status || 'not-baseline',
+            status: known?.status || 'not-baseline',
+            description: known?.feature.description || '',
+            mdnUrl: known?.feature.mdn_url,
+            specUrl: known?.feature.spec_url,
+            browserSupport: known?.feature.browserSupport || {},
             count: 1,
-            files: [result.file]
+            files: [result.file],
+            locations
           });
         }
       });
@@ -257,3 +540,107 @@ export class ProjectAnalyzer {
     return Array.from(featureMap.values()).sort((a, b) => b.count - a.count);
   }
 }
+
+let detectorBuild: string | undefined;
+
+/**
+ * The @baseline/core version with a hash of its compiled code and this
+ * file's, so rebuilding the detectors drops cached results even when the
+ * version number stayed the same
+ */
+function getDetectorBuild(): string {
+  if (detectorBuild === undefined) {
+    const coreDir = path.dirname(require.resolve('@baseline/core/package.json'));
+    const { version } = JSON.parse(fs.readFileSync(path.join(coreDir, 'package.json'), 'utf-8'));
+    const hash = crypto.createHash('sha1').update(fs.readFileSync(__filename));
+    for (const file of listScripts(path.dirname(require.resolve('@baseline/core')))) {
+      hash.update(fs.readFileSync(file));
+    }
+    detectorBuild = `${version}+${hash.digest('hex').slice(0, 12)}`;
+  }
+  return detectorBuild;
+}
+
+// Compiled scripts under a directory, in a stable order
+function listScripts(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => entry.isDirectory()
+      ? listScripts(path.join(dir, entry.name))
+      : entry.name.endsWith('.js') ? [path.join(dir, entry.name)] : []);
+}
+
+/**
+ * Analyze one file's content. Runs on the main thread or in a worker, so it
+ * only depends on its arguments.
+ */
+export function analyzeFileContent(job: AnalysisJob, index: FeatureIndex, targets?: BrowserTargets): FileAnalysis {
+  const { file, language, content } = job;
+  const { matches, suppressions } = analyzeSourceWithSuppressions(content, language, index, targets, file);
+  const counts = countByStatus(matches);
+
+  const lines = new LineMap(content);
+  const sourceLines = content.split('\n');
+  const features = new Map<string, FeatureEntry>();
+  const usages: UsageLocation[] = [];
+  for (const { feature, status, usage, guarded } of matches) {
+    features.set(feature.id, { feature, status });
+
+    const end = lines.positionAt(usage.end);
+    usages.push({
+      file,
+      feature: feature.id,
+      name: usage.name,
+      status,
+      ...(guarded ? { guarded } : {}),
+      line: usage.line + 1,
+      column: usage.column + 1,
+      endLine: end.line + 1,
+      endColumn: end.column + 1,
+      snippet: snippetOf(sourceLines[usage.line], usage.column),
+      fingerprint: fingerprintOf(sourceLines[usage.line], usage.name)
+    });
+  }
+
+  const result: FileResult = {
+    file,
+    language,
+    baselineCount: counts.baseline,
+    guardedCount: counts.guarded,
+    limitedCount: counts.limited,
+    nonBaselineCount: counts.nonBaseline,
+    features: Array.from(features.keys()),
+    usages,
+    suppressions: suppressions.map(suppression => ({
+      file,
+      line: suppression.line + 1,
+      kind: suppression.kind,
+      names: suppression.names,
+      reason: suppression.reason,
+      features: Array.from(new Set(suppression.suppressed.map(match => match.feature.id)))
+    }))
+  };
+
+  return { result, features: Array.from(features.values()) };
+}
+
+// Longest snippet kept, so minified files don't bloat reports
+const MAX_SNIPPET_LENGTH = 120;
+
+// The line around a usage, cut to a window centered on it when too long
+function snippetOf(line: string | undefined, column: number): string {
+  const text = (line || '').replace(/\r$/, '');
+  if (text.trim().length <= MAX_SNIPPET_LENGTH) {
+    return text.trim();
+  }
+
+  const start = Math.max(0, Math.min(column - MAX_SNIPPET_LENGTH / 2, text.length - MAX_SNIPPET_LENGTH));
+  const end = start + MAX_SNIPPET_LENGTH;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+// Ignores whitespace, so reindenting a line or changing its spacing keeps its fingerprint
+function fingerprintOf(line: string | undefined, name: string): string {
+  const code = (line || '').replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha1').update(`${name}\n${code}`).digest('hex').slice(0, 16);
+}
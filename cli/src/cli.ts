@@ -1,11 +1,17 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
+import * as path from 'path';
+import { InvalidArgumentError, program } from 'commander';
 import chalk from 'chalk';
-import { ProjectAnalyzer } from './analyzer';
-import { Reporter } from './reporter';
+import { AnalysisResult, AnalysisStats, ProjectAnalyzer } from './analyzer';
+import { JUnitLimitedOutcome, Reporter, reportPath, workflowCommand } from './reporter';
 import { ConfigLoader } from './config';
+import { ComparisonReporter, compareResults, readAnalysisReport } from './compare';
+import { GitDiff } from './git';
+import { DEFAULT_SNAPSHOT_FILE, Snapshot, SnapshotComparison } from './snapshot';
+import { ProjectWatcher } from './watcher';
 import { DependencyAuditor } from './dependencyAuditor'; // ...added import...
+import { FeatureIndex, parseTargets, resolveConfig } from '@baseline/core';
 
 async function main() {
   program
@@ -18,12 +24,23 @@ async function main() {
     .command('check')
     .description('Analyze project for Baseline compatibility')
     .option('-p, --path <path>', 'Project path to analyze', process.cwd())
-    .option('-f, --format <format>', 'Output format (table, json, html)', 'table')
+    .option('-f, --format <format>', 'Output format (table, json, html, sarif, github, junit)', 'table')
     .option('--css', 'Analyze CSS files only')
     .option('--js', 'Analyze JavaScript files only')
     .option('--fail-on-non-baseline', 'Exit with error if non-baseline features found')
-    .option('--threshold <percentage>', 'Minimum baseline percentage required (0-100)', '80')
+    .option('--threshold <percentage>', 'Minimum baseline percentage required (0-100, default 80)', parseThreshold)
+    .option('-t, --targets <query>', 'Browser targets, e.g. "baseline 2022, safari >= 15.4" or "widely available"')
+    .option('--include <globs...>', 'Files to analyze, overriding the config file')
+    .option('--ignore <globs...>', 'Files to skip, overriding the config file')
     .option('-o, --output <file>', 'Output file for results')
+    .option('--since <ref>', 'Only check lines changed since the branch left this git ref, e.g. origin/main')
+    .option('--staged', 'Only check lines staged for commit')
+    .option('--snapshot <file>', `Snapshot of accepted non-Baseline usages (default ${DEFAULT_SNAPSHOT_FILE} in the project)`)
+    .option('--update-snapshot', 'Record the current non-Baseline usages in the snapshot')
+    .option('--junit-limited <outcome>', 'How limited usages count in JUnit output (failure, skipped, pass)', parseJUnitLimited, 'skipped')
+    .option('--watch', 'Keep running and report what changes as files are edited')
+    .option('--workers <count>', 'Worker threads to analyze with (default one per CPU core, 0 to disable)', parseWorkers)
+    .option('--no-cache', 'Analyze every file instead of reusing results from earlier runs')
     .option('--verbose', 'Show detailed output')
     .action(async (options) => {
       try {
@@ -49,7 +66,27 @@ async function main() {
     .description('Show project Baseline statistics')
     .option('-p, --path <path>', 'Project path to analyze', process.cwd())
     .action(async (options) => {
-      await runStats(options);
+      try {
+        await runStats(options);
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // Compare command
+  program
+    .command('compare <old> <new>')
+    .description('Compare two JSON reports from baseline check, e.g. from two releases')
+    .option('-f, --format <format>', 'Output format (table, markdown, json)', 'table')
+    .option('-o, --output <file>', 'Output file for the comparison')
+    .action((oldReport: string, newReport: string, options) => {
+      try {
+        runCompare(oldReport, newReport, options);
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
     });
 
   // Replaced audit command to run full dependency auditor
@@ -65,29 +102,97 @@ async function main() {
   program.parse();
 }
 
+function parseJUnitLimited(value: string): JUnitLimitedOutcome {
+  if (!['failure', 'skipped', 'pass'].includes(value)) {
+    throw new InvalidArgumentError('Expected failure, skipped or pass.');
+  }
+  return value as JUnitLimitedOutcome;
+}
+
+function parseWorkers(value: string): number {
+  const workers = Number(value);
+  if (!Number.isInteger(workers) || workers < 0) {
+    throw new InvalidArgumentError('Expected a whole number of workers.');
+  }
+  return workers;
+}
+
+function parseThreshold(value: string): number {
+  const threshold = Number(value);
+  if (value.trim() === '' || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    throw new InvalidArgumentError('Expected a percentage from 0 to 100.');
+  }
+  return threshold;
+}
+
 async function runCheck(options: any) {
   const ora = (await import('ora')).default;
   const spinner = ora('Analyzing project...').start();
 
   try {
-    // Load configuration
-    const config = ConfigLoader.loadConfig(options.path);
-    const mergedOptions = { ...config, ...options };
+    // Defaults, then the project's config file and its presets, then flags
+    const loaded = ConfigLoader.loadConfig(options.path);
+    const config = resolveConfig(loaded.config, {
+      threshold: options.threshold,
+      failOnNonBaseline: options.failOnNonBaseline,
+      targets: options.targets,
+      include: options.include,
+      ignore: options.ignore
+    });
+
+    if (options.verbose && loaded.files.length > 0) {
+      spinner.info(`Using config from ${loaded.files.join(', ')}`).start('Analyzing project...');
+    }
+
+    // Evaluate features against browser targets when configured
+    const targets = parseTargets(config.targets);
+
+    // Narrow the check to what git says changed
+    if (options.since && options.staged) {
+      throw new Error('Use either --since or --staged, not both');
+    }
+    const diffMode = Boolean(options.since || options.staged);
+    if (options.watch && options.updateSnapshot) {
+      throw new Error('--update-snapshot cannot be combined with --watch');
+    }
+    if (diffMode && options.updateSnapshot) {
+      throw new Error('--update-snapshot records the whole project and cannot be combined with --since or --staged');
+    }
+    const projectPath = path.resolve(options.path);
+    const readChangedLines = () => options.since ? GitDiff.since(options.since, projectPath) : options.staged ? GitDiff.staged(projectPath) : undefined;
+    const changedLines = readChangedLines();
+    if (options.verbose && changedLines) {
+      spinner.info(`Checking lines changed in ${changedLines.size} files`).start('Analyzing project...');
+    }
 
     // Create analyzer
-    const analyzer = new ProjectAnalyzer(mergedOptions.path);
+    const analyzer = new ProjectAnalyzer(options.path, FeatureIndex.fromWebFeatures(), targets);
 
     // Analyze project
-    const results = await analyzer.analyze({
+    const analyzeOptions = {
       cssOnly: options.css,
       jsOnly: options.js,
-      verbose: options.verbose
-    });
+      verbose: options.verbose,
+      include: config.include,
+      ignore: config.ignore,
+      changedLines,
+      workers: options.workers,
+      cacheDir: options.cache ? path.join(projectPath, 'node_modules', '.cache', 'baseline') : undefined
+    };
+    const results = await analyzer.analyze(analyzeOptions);
 
     spinner.succeed('Analysis complete');
 
+    // Keep stdout parseable when the report itself went there
+    const log = !options.output && ['json', 'sarif', 'junit'].includes(options.format) ? console.error : console.log;
+
+    const stats = analyzer.getStats();
+    if (options.verbose && stats) {
+      printStats(stats, log);
+    }
+
     // Generate report
-    const reporter = new Reporter(results);
+    const reporter = new Reporter(results, { verbose: options.verbose, junitLimited: options.junitLimited });
 
     if (options.output) {
       // Write to file
@@ -98,24 +203,70 @@ async function runCheck(options: any) {
       reporter.print(options.format);
     }
 
+    // From here on, report changes instead of exiting on failures
+    if (options.watch) {
+      new ProjectWatcher(analyzer, analyzeOptions, results, diffMode ? readChangedLines : undefined).start();
+      return;
+    }
+
+    // In GitHub Actions, failures become annotations on the run
+    const github = options.format === 'github';
+
+    // Record existing usages, or fail only on ones the snapshot doesn't know
+    const snapshotFile = options.snapshot ? path.resolve(options.snapshot) : path.join(options.path, DEFAULT_SNAPSHOT_FILE);
+    const snapshot = options.updateSnapshot ? undefined : Snapshot.load(snapshotFile);
+
+    // A snapshot accepts existing debt, so the score only warns alongside one
+    const failOnNonBaseline = config.failOnNonBaseline && !snapshot && !options.updateSnapshot;
+
     // Check thresholds
-    const threshold = parseInt(options.threshold);
+    const threshold = config.threshold;
     if (results.baselineScore < threshold) {
-      console.log(
-        chalk.yellow(
-          `\n⚠ Warning: Baseline score (${results.baselineScore}%) is below threshold (${threshold}%)`
-        )
-      );
-      if (options.failOnNonBaseline) {
+      const scoreLabel = targets ? 'Target support score' : 'Baseline score';
+      const message = `${scoreLabel} (${results.baselineScore}%) is below threshold (${threshold}%)`;
+      if (github) {
+        console.log(workflowCommand(failOnNonBaseline ? 'error' : 'warning', message, { title: 'Baseline threshold' }));
+      } else {
+        log(chalk.yellow(`\n⚠ Warning: ${message}`));
+      }
+      if (failOnNonBaseline) {
         process.exit(1);
       }
     }
 
+    if (options.updateSnapshot) {
+      const recorded = Snapshot.fromResults(results);
+      recorded.write(snapshotFile);
+      log(chalk.green(`\n✓ Recorded ${recorded.entries.length} non-Baseline usages in ${snapshotFile}`));
+      return;
+    }
+
+    if (snapshot) {
+      // Unchanged lines weren't checked, so they can't be said to be fixed
+      const comparison = snapshot.compare(results, !diffMode);
+      printSnapshotComparison(comparison, results, log);
+
+      if (comparison.added.length > 0) {
+        const message = `Found ${comparison.added.length} non-Baseline usages that are not in the snapshot`;
+        if (github) {
+          console.log(workflowCommand('error', message, { title: 'Baseline check failed' }));
+        } else {
+          log(chalk.red(`\n✗ ${message}`));
+        }
+        process.exit(1);
+      }
+      return;
+    }
+
     // Exit with error if requested
-    if (options.failOnNonBaseline && results.nonBaselineCount > 0) {
-      console.log(
-        chalk.red(`\n✗ Found ${results.nonBaselineCount} non-baseline features`)
-      );
+    if (failOnNonBaseline && results.nonBaselineCount > 0) {
+      const problem = targets ? 'features not supported by your targets' : 'non-baseline features';
+      const message = `Found ${results.nonBaselineCount} ${problem}`;
+      if (github) {
+        console.log(workflowCommand('error', message, { title: 'Baseline check failed' }));
+      } else {
+        log(chalk.red(`\n✗ ${message}`));
+      }
       process.exit(1);
     }
 
@@ -125,18 +276,74 @@ async function runCheck(options: any) {
   }
 }
 
+function printStats(stats: AnalysisStats, log: (message: string) => void) {
+  const { timings } = stats;
+  const where = stats.workers > 0 ? `${stats.workers} workers` : 'main thread';
+  log(chalk.bold('\n⏱  Timings'));
+  log(`  Find files    ${timings.find}ms ${chalk.dim(`(${stats.files} files)`)}`);
+  log(`  Read & hash   ${timings.read}ms`);
+  log(`  Analyze       ${timings.analyze}ms ${chalk.dim(`(${stats.analyzed} analyzed on ${where}, ${stats.cached} cached)`)}`);
+  log(`  Aggregate     ${timings.aggregate}ms`);
+  log(`  Cache         ${timings.cache}ms`);
+}
+
+function printSnapshotComparison(comparison: SnapshotComparison, results: AnalysisResult, log: (message: string) => void) {
+  const features = [...results.cssFeatures, ...results.jsFeatures];
+  const featureName = (id: string) => features.find(f => f.feature === id)?.name || id;
+
+  log(chalk.bold('\n📸 Snapshot'));
+  log(`  ${comparison.known} known, ${chalk.red(`${comparison.added.length} new`)}, ${chalk.green(`${comparison.fixed.length} fixed`)}`);
+
+  if (comparison.added.length > 0) {
+    log(chalk.bold('\n  New non-Baseline usages:'));
+    comparison.added.forEach(usage => {
+      log(chalk.red(`  ✗ ${reportPath(results.projectPath, usage.file)}:${usage.line}:${usage.column} ${featureName(usage.feature)}`));
+    });
+  }
+
+  if (comparison.fixed.length > 0) {
+    log(chalk.bold('\n  Fixed since the snapshot was taken:'));
+    comparison.fixed.forEach(entry => {
+      log(chalk.green(`  ✓ ${reportPath(results.projectPath, path.join(results.projectPath, entry.file))}:${entry.line} ${featureName(entry.feature)}`));
+    });
+    log(chalk.dim('\n  Run baseline check --update-snapshot to remove them from the snapshot.'));
+  }
+}
+
+function runCompare(oldReport: string, newReport: string, options: any) {
+  const comparison = compareResults(readAnalysisReport(oldReport), readAnalysisReport(newReport));
+  const reporter = new ComparisonReporter(comparison);
+
+  if (options.output) {
+    reporter.writeToFile(options.output, options.format);
+    console.log(chalk.green(`✓ Comparison written to ${options.output}`));
+  } else {
+    reporter.print(options.format);
+  }
+}
+
 async function runStats(options: any) {
-  const analyzer = new ProjectAnalyzer(options.path);
-  const results = await analyzer.analyze({ verbose: false });
+  const config = ConfigLoader.resolve(options.path);
+  // Same index and targets as check, so the two agree on statuses
+  const targets = parseTargets(config.targets);
+  const analyzer = new ProjectAnalyzer(options.path, FeatureIndex.fromWebFeatures(), targets);
+  const results = await analyzer.analyze({ verbose: false, include: config.include, ignore: config.ignore });
 
   console.log(chalk.bold('\n📊 Baseline Statistics\n'));
   console.log(`Total Files:        ${results.totalFiles}`);
   console.log(`CSS Files:          ${results.cssFiles}`);
   console.log(`JavaScript Files:   ${results.jsFiles}`);
-  console.log(`\nBaseline Score:     ${chalk.green(results.baselineScore + '%')}`);
+  if (targets) {
+    console.log(`\nTargets:            ${targets.query}`);
+    console.log(`Target Support:     ${chalk.green(results.baselineScore + '%')}`);
+  } else {
+    console.log(`\nBaseline Score:     ${chalk.green(results.baselineScore + '%')}`);
+  }
   console.log(`Baseline Features:  ${chalk.green(results.baselineCount)}`);
+  console.log(`Progressive:        ${chalk.blue(results.guardedCount)}`);
   console.log(`Limited Features:   ${chalk.yellow(results.limitedCount)}`);
   console.log(`Non-Baseline:       ${chalk.red(results.nonBaselineCount)}`);
+  console.log(`Suppressions:       ${chalk.dim(results.suppressions.length)}`);
 }
 
 async function runAudit(options: any) {
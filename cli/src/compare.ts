@@ -0,0 +1,301 @@
+import chalk from 'chalk';
+import { table } from 'table';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineStatus } from '@baseline/core';
+import { AnalysisResult, FeatureUsage, FileResult, UsageLocation } from './analyzer';
+import { Snapshot } from './snapshot';
+
+export interface ReportTotals {
+  score: number;
+  files: number;
+  baseline: number;
+  guarded: number;
+  limited: number;
+  nonBaseline: number;
+}
+
+export interface NewUsage extends UsageLocation {
+  featureName: string;
+}
+
+export interface FileStatusChange {
+  file: string;
+  before?: BaselineStatus; // undefined for files that are new
+  after: BaselineStatus;
+}
+
+/**
+ * What changed between two `baseline check --format json` reports. File
+ * paths are relative to the analyzed project.
+ */
+export interface ReportComparison {
+  before: ReportTotals;
+  after: ReportTotals;
+  scoreDelta: number;
+  // Target query the new report was evaluated against, if any
+  targets?: string;
+  // Set when the reports were evaluated against different browser targets
+  targetsChanged?: { before?: string; after?: string };
+  addedFeatures: FeatureUsage[];
+  removedFeatures: FeatureUsage[];
+  worsenedFiles: FileStatusChange[];
+  newUsages: NewUsage[];
+}
+
+const STATUS_RANK: Record<BaselineStatus, number> = { baseline: 0, limited: 1, 'not-baseline': 2 };
+
+const STATUS_LABELS: Record<BaselineStatus, string> = {
+  baseline: 'Baseline',
+  limited: 'Limited',
+  'not-baseline': 'Not Baseline'
+};
+
+/**
+ * Read a JSON report written by `baseline check`
+ */
+export function readAnalysisReport(file: string): AnalysisResult {
+  let data: Partial<AnalysisResult>;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (typeof data.baselineScore !== 'number' || !Array.isArray(data.fileResults)) {
+    throw new Error(`${file} is not a JSON report from baseline check --format json`);
+  }
+
+  return {
+    ...data,
+    // Reports from older versions don't record where they ran
+    projectPath: data.projectPath || '',
+    // Guarded usages are newer still; a missing count would make the totals NaN
+    totalFiles: data.totalFiles || 0,
+    baselineCount: data.baselineCount || 0,
+    guardedCount: data.guardedCount || 0,
+    limitedCount: data.limitedCount || 0,
+    nonBaselineCount: data.nonBaselineCount || 0,
+    cssFeatures: data.cssFeatures || [],
+    jsFeatures: data.jsFeatures || [],
+    fileResults: data.fileResults.map(result => ({ ...result, usages: result.usages || [] }))
+  } as AnalysisResult;
+}
+
+export function compareResults(before: AnalysisResult, after: AnalysisResult): ReportComparison {
+  const beforeFeatures = new Map([...before.cssFeatures, ...before.jsFeatures].map(f => [f.feature, f]));
+  const afterFeatures = new Map([...after.cssFeatures, ...after.jsFeatures].map(f => [f.feature, f]));
+
+  const beforeFiles = new Map(before.fileResults.map(result => [relativeFile(before, result.file), result]));
+  const worsenedFiles: FileStatusChange[] = [];
+  for (const result of after.fileResults) {
+    const file = relativeFile(after, result.file);
+    const previous = beforeFiles.get(file);
+    const status = fileStatus(result);
+    if (STATUS_RANK[status] > STATUS_RANK[previous ? fileStatus(previous) : 'baseline']) {
+      worsenedFiles.push({ file, before: previous && fileStatus(previous), after: status });
+    }
+  }
+
+  // Usages are matched the way a snapshot matches them, so moved code isn't new
+  const { added } = Snapshot.fromResults(before).compare(after);
+
+  return {
+    before: totals(before),
+    after: totals(after),
+    scoreDelta: after.baselineScore - before.baselineScore,
+    targets: after.targets,
+    ...(before.targets !== after.targets ? { targetsChanged: { before: before.targets, after: after.targets } } : {}),
+    addedFeatures: Array.from(afterFeatures.values()).filter(f => !beforeFeatures.has(f.feature)),
+    removedFeatures: Array.from(beforeFeatures.values()).filter(f => !afterFeatures.has(f.feature)),
+    worsenedFiles,
+    newUsages: added.map(usage => ({
+      ...usage,
+      file: relativeFile(after, usage.file),
+      featureName: afterFeatures.get(usage.feature)?.name || usage.feature
+    }))
+  };
+}
+
+export class ComparisonReporter {
+  constructor(private comparison: ReportComparison) {}
+
+  print(format: string = 'table'): void {
+    switch (format) {
+      case 'json':
+        console.log(JSON.stringify(this.comparison, null, 2));
+        break;
+      case 'markdown':
+        console.log(this.generateMarkdown());
+        break;
+      case 'table':
+      default:
+        this.printTable();
+        break;
+    }
+  }
+
+  writeToFile(filePath: string, format: string): void {
+    const content = format === 'json'
+      ? JSON.stringify(this.comparison, null, 2)
+      : this.generateMarkdown();
+
+    fs.writeFileSync(filePath, content, 'utf-8');
+  }
+
+  private printTable(): void {
+    const { before, after, targetsChanged } = this.comparison;
+    console.log(chalk.bold('\n📊 Baseline Diff\n'));
+
+    if (targetsChanged) {
+      console.log(chalk.yellow(`⚠ Targets changed from ${targetsChanged.before || 'Baseline'} to ${targetsChanged.after || 'Baseline'}; statuses may not be comparable\n`));
+    }
+
+    console.log(table([
+      ['Metric', 'Before', 'After', 'Change'],
+      ...this.getMetricRows().map(([label, key, higherIsBetter]) => [
+        label,
+        `${before[key]}${key === 'score' ? '%' : ''}`,
+        `${after[key]}${key === 'score' ? '%' : ''}`,
+        this.colorizeDelta(after[key] - before[key], higherIsBetter)
+      ])
+    ]));
+
+    const featureTable = (title: string, features: FeatureUsage[]) => {
+      if (features.length > 0) {
+        console.log(chalk.bold(`\n${title}\n`));
+        console.log(table([
+          ['Feature', 'Status', 'Files'],
+          ...features.map(f => [f.name, STATUS_LABELS[f.status], f.count.toString()])
+        ]));
+      }
+    };
+    featureTable('➕ Features Added', this.comparison.addedFeatures);
+    featureTable('➖ Features Removed', this.comparison.removedFeatures);
+
+    if (this.comparison.worsenedFiles.length > 0) {
+      console.log(chalk.bold('\n📉 Files That Got Worse\n'));
+      console.log(table([
+        ['File', 'Before', 'After'],
+        ...this.comparison.worsenedFiles.map(f => [
+          f.file,
+          f.before ? STATUS_LABELS[f.before] : chalk.dim('new file'),
+          chalk.red(STATUS_LABELS[f.after])
+        ])
+      ]));
+    }
+
+    if (this.comparison.newUsages.length > 0) {
+      console.log(chalk.bold('\n🆕 New Non-Baseline Usages\n'));
+      console.log(table([
+        ['Location', 'Feature', 'Code'],
+        ...this.comparison.newUsages.map(u => [
+          `${u.file}:${u.line}:${u.column}`,
+          u.featureName,
+          chalk.dim(u.snippet)
+        ])
+      ]));
+    } else {
+      console.log(chalk.green('\n✓ No new non-Baseline usages'));
+    }
+  }
+
+  private generateMarkdown(): string {
+    const { before, after, targetsChanged } = this.comparison;
+    const scoreLabel = this.comparison.targets ? 'Target support score' : 'Baseline score';
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines: string[] = [
+      '## 📊 Baseline Diff',
+      '',
+      `**${scoreLabel}: ${before.score}% → ${after.score}% (${this.formatDelta(this.comparison.scoreDelta)})**`,
+      ''
+    ];
+
+    if (targetsChanged) {
+      lines.push(`> ⚠️ Targets changed from \`${targetsChanged.before || 'Baseline'}\` to \`${targetsChanged.after || 'Baseline'}\`; statuses may not be comparable.`, '');
+    }
+
+    lines.push('| Metric | Before | After | Change |', '| --- | ---: | ---: | ---: |');
+    for (const [label, key] of this.getMetricRows()) {
+      const unit = key === 'score' ? '%' : '';
+      lines.push(`| ${label} | ${before[key]}${unit} | ${after[key]}${unit} | ${this.formatDelta(after[key] - before[key])} |`);
+    }
+    lines.push('');
+
+    const featureTable = (title: string, features: FeatureUsage[]) => {
+      if (features.length > 0) {
+        lines.push(`### ${title}`, '', '| Feature | Status | Files |', '| --- | --- | ---: |');
+        for (const f of features) {
+          const name = f.mdnUrl ? `[${cell(f.name)}](${f.mdnUrl})` : cell(f.name);
+          lines.push(`| ${name} | ${STATUS_LABELS[f.status]} | ${f.count} |`);
+        }
+        lines.push('');
+      }
+    };
+    featureTable('➕ Features Added', this.comparison.addedFeatures);
+    featureTable('➖ Features Removed', this.comparison.removedFeatures);
+
+    if (this.comparison.worsenedFiles.length > 0) {
+      lines.push('### 📉 Files That Got Worse', '', '| File | Before | After |', '| --- | --- | --- |');
+      for (const f of this.comparison.worsenedFiles) {
+        lines.push(`| \`${cell(f.file)}\` | ${f.before ? STATUS_LABELS[f.before] : '_new file_'} | ${STATUS_LABELS[f.after]} |`);
+      }
+      lines.push('');
+    }
+
+    if (this.comparison.newUsages.length > 0) {
+      lines.push('### 🆕 New Non-Baseline Usages', '', '| Location | Feature | Code |', '| --- | --- | --- |');
+      for (const u of this.comparison.newUsages) {
+        lines.push(`| \`${cell(`${u.file}:${u.line}:${u.column}`)}\` | ${cell(u.featureName)} | \`${cell(u.snippet)}\` |`);
+      }
+      lines.push('');
+    } else {
+      lines.push('✅ No new non-Baseline usages', '');
+    }
+
+    return lines.join('\n');
+  }
+
+  // Label, totals key, and whether an increase is an improvement
+  private getMetricRows(): Array<[string, keyof ReportTotals, boolean]> {
+    return [
+      [this.comparison.targets ? 'Target Support Score' : 'Baseline Score', 'score', true],
+      ['Files', 'files', true],
+      ['Baseline', 'baseline', true],
+      ['Progressively Enhanced', 'guarded', true],
+      ['Limited', 'limited', false],
+      ['Not Baseline', 'nonBaseline', false]
+    ];
+  }
+
+  private formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : delta.toString();
+  }
+
+  private colorizeDelta(delta: number, higherIsBetter: boolean): string {
+    if (delta === 0) {
+      return chalk.dim('0');
+    }
+    return delta > 0 === higherIsBetter ? chalk.green(this.formatDelta(delta)) : chalk.red(this.formatDelta(delta));
+  }
+}
+
+function totals(results: AnalysisResult): ReportTotals {
+  return {
+    score: results.baselineScore,
+    files: results.totalFiles,
+    baseline: results.baselineCount,
+    guarded: results.guardedCount,
+    limited: results.limitedCount,
+    nonBaseline: results.nonBaselineCount
+  };
+}
+
+// The worst status among a file's usages, ignoring guarded ones
+function fileStatus(result: FileResult): BaselineStatus {
+  return result.nonBaselineCount > 0 ? 'not-baseline' : result.limitedCount > 0 ? 'limited' : 'baseline';
+}
+
+function relativeFile(results: AnalysisResult, file: string): string {
+  return path.relative(results.projectPath, file).split(path.sep).join('/');
+}
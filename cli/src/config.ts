@@ -1,30 +1,30 @@
 import * as fs from 'fs';
-import * as path from 'path';
+import { BaselineConfig, LoadedConfig, ResolvedConfig, loadConfig, resolveConfig } from '@baseline/core';
 
-export interface BaselineConfig {
-  threshold?: number;
-  failOnNonBaseline?: boolean;
-  ignore?: string[];
-  include?: string[];
-}
+export type { BaselineConfig, ResolvedConfig } from '@baseline/core';
 
 export class ConfigLoader {
-  static loadConfig(projectPath: string): BaselineConfig {
-    const configPath = path.join(projectPath, '.baselinerc.json');
-    
-    if (fs.existsSync(configPath)) {
-      const content = fs.readFileSync(configPath, 'utf-8');
-      return JSON.parse(content);
-    }
+  /**
+   * The configuration that applies to a project: the nearest config file
+   * at or above its path, with the presets it extends merged in
+   */
+  static loadConfig(projectPath: string): LoadedConfig {
+    return loadConfig(projectPath);
+  }
 
-    return {};
+  /**
+   * Merge defaults, the project's configuration and command-line flags, in
+   * that order of precedence. Flags left unset don't override anything.
+   */
+  static resolve(projectPath: string, flags: BaselineConfig = {}): ResolvedConfig {
+    return resolveConfig(ConfigLoader.loadConfig(projectPath).config, flags);
   }
 
   static createDefaultConfig(): void {
     const defaultConfig: BaselineConfig = {
       threshold: 80,
       failOnNonBaseline: false,
-      ignore: ['node_modules/**', 'dist/**', 'build/**'],
+      ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
       include: ['src/**/*.{css,scss,less,js,ts,jsx,tsx}']
     };
 
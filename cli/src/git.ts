@@ -0,0 +1,142 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Lines added or changed in a file, one-based and inclusive
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Changed lines of each file, keyed by absolute path
+export type ChangedLines = Map<string, LineRange[]>;
+
+/**
+ * Which lines changed in a directory of a repository, read from `git diff`.
+ * Only added and modified files are listed; deleted lines can't introduce
+ * usages.
+ */
+export class GitDiff {
+  /**
+   * Changes since the point a branch left `ref`, including uncommitted and
+   * untracked files, like a pull request against `ref` would show
+   */
+  static since(ref: string, cwd: string): ChangedLines {
+    const base = git(['merge-base', ref, 'HEAD'], cwd).trim();
+    const changed = GitDiff.parse(git(['diff', ...DIFF_OPTIONS, base], cwd), cwd);
+
+    for (const file of git(['ls-files', '--others', '--exclude-standard'], cwd).split('\n').filter(Boolean)) {
+      changed.set(path.resolve(cwd, file), [{ start: 1, end: Infinity }]);
+    }
+    return changed;
+  }
+
+  /**
+   * Changes staged for the next commit, for pre-commit hooks. Files are
+   * still read from the working tree.
+   */
+  static staged(cwd: string): ChangedLines {
+    return GitDiff.parse(git(['diff', '--cached', ...DIFF_OPTIONS], cwd), cwd);
+  }
+
+  /**
+   * Read the new side of each hunk from a zero-context unified diff whose
+   * paths are relative to `dir`
+   */
+  static parse(diff: string, dir: string): ChangedLines {
+    const changed: ChangedLines = new Map();
+    let ranges: LineRange[] | undefined;
+    // Until a file's first hunk, since added and removed lines can look like
+    // the header too, e.g. `++ x` added becomes `+++ x`
+    let header = false;
+
+    const lines = diff.split('\n');
+    lines.forEach((line, i) => {
+      if (line.startsWith('diff --git ')) {
+        header = true;
+        ranges = undefined;
+        return;
+      }
+
+      if (header && line.startsWith('+++ ') && i > 0 && lines[i - 1].startsWith('--- ')) {
+        const target = unquote(line.slice(4));
+        ranges = target === '/dev/null' ? undefined : [];
+        if (ranges) {
+          changed.set(path.resolve(dir, target.replace(/^b\//, '')), ranges);
+        }
+        return;
+      }
+
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (!hunk) {
+        return;
+      }
+      header = false;
+      if (ranges) {
+        const start = Number(hunk[1]);
+        const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+        // A count of zero is a pure deletion
+        if (count > 0) {
+          ranges.push({ start, end: start + count - 1 });
+        }
+      }
+    });
+
+    return changed;
+  }
+}
+
+/**
+ * The top directory of the repository containing `dir`, found by looking
+ * for `.git` rather than running git, or undefined outside a repository
+ */
+export function findRepositoryRoot(dir: string): string | undefined {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    // A directory in a normal clone, a file in worktrees and submodules
+    if (fs.existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Whether a one-based line falls in any of the ranges
+ */
+export function isLineChanged(ranges: LineRange[], line: number): boolean {
+  return ranges.some(range => line >= range.start && line <= range.end);
+}
+
+// Zero context so hunks cover only changed lines, paths relative to the
+// directory, and prefixes fixed whatever the user's diff settings are
+const DIFF_OPTIONS = ['--relative', '--unified=0', '--no-color', '--no-ext-diff', '--diff-filter=d', '--src-prefix=a/', '--dst-prefix=b/'];
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+// Git quotes paths with unusual characters like a C string
+function unquote(file: string): string {
+  if (!file.startsWith('"')) {
+    return file;
+  }
+  try {
+    return JSON.parse(file);
+  } catch {
+    return file.slice(1, -1);
+  }
+}
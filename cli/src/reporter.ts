@@ -1,16 +1,134 @@
 import chalk from 'chalk';
 import { table } from 'table';
 import * as fs from 'fs';
-import { AnalysisResult } from './analyzer';
+import * as path from 'path';
+import { BaselineStatus, BrowserSupport } from '@baseline/core';
+import { AnalysisResult, FeatureUsage, FileResult, SuppressionEntry, UsageLocation } from './analyzer';
+import { findRepositoryRoot } from './git';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// Code-scanning level for each kind of finding; Baseline usages are not reported
+const SARIF_LEVELS: Record<Exclude<BaselineStatus, 'baseline'> | 'guarded', 'error' | 'warning' | 'note'> = {
+  'not-baseline': 'error',
+  limited: 'warning',
+  guarded: 'note'
+};
+
+// Browsers shown in support matrices, in display order
+const HTML_BROWSERS: Array<[keyof BrowserSupport, string]> = [
+  ['chrome', 'Chrome'],
+  ['edge', 'Edge'],
+  ['firefox', 'Firefox'],
+  ['safari', 'Safari']
+];
+
+// Sort order of statuses, worst last
+const HTML_STATUS_ORDER: Record<BaselineStatus, number> = { baseline: 0, limited: 1, 'not-baseline': 2 };
+
+const HTML_REPORT_STYLE = `
+    body { font-family: system-ui, sans-serif; padding: 40px; max-width: 1200px; margin: 0 auto; color: #222; }
+    h1 { color: #333; }
+    .score { font-size: 48px; font-weight: bold; margin: 20px 0 4px; }
+    .score.high { color: #4CAF50; }
+    .score.medium { color: #FF9800; }
+    .score.low { color: #F44336; }
+    .meta { color: #666; }
+    .cards { display: flex; gap: 12px; margin: 24px 0; flex-wrap: wrap; }
+    .card { flex: 1; min-width: 150px; padding: 16px; border-radius: 8px; background: #f5f5f5; border-left: 4px solid; }
+    .card .count { font-size: 28px; font-weight: bold; }
+    .card.baseline { border-color: #4CAF50; }
+    .card.guarded { border-color: #2196F3; }
+    .card.limited { border-color: #FF9800; }
+    .card.not-baseline { border-color: #F44336; }
+    .filters { margin: 16px 0; }
+    .filters button { padding: 6px 12px; margin-right: 4px; border: 1px solid #ccc; border-radius: 16px; background: #fff; cursor: pointer; }
+    .filters button.active { background: #333; color: #fff; border-color: #333; }
+    table { width: 100%; border-collapse: collapse; margin: 12px 0 32px; }
+    th, td { padding: 10px 12px; text-align: left; border-bottom: 1px solid #ddd; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .sortable > thead th { cursor: pointer; user-select: none; }
+    .sortable > thead th.asc::after { content: ' ▲'; }
+    .sortable > thead th.desc::after { content: ' ▼'; }
+    summary { cursor: pointer; font-weight: 600; }
+    details table { margin: 8px 0; }
+    details td { padding: 4px 8px; font-size: 13px; }
+    code { font-family: ui-monospace, monospace; font-size: 12px; background: #f5f5f5; padding: 1px 4px; border-radius: 3px; word-break: break-all; }
+    .badge { display: inline-block; padding: 2px 8px; border-radius: 10px; font-size: 12px; color: #fff; white-space: nowrap; }
+    .badge.baseline { background: #4CAF50; }
+    .badge.guarded { background: #2196F3; }
+    .badge.limited { background: #FF9800; }
+    .badge.not-baseline { background: #F44336; }
+    .support td { text-align: center; border: 1px solid #ddd; }
+    .support .supported { background: #e8f5e9; }
+    .support .unsupported { background: #ffebee; }
+    .hidden { display: none; }
+`;
+
+// Sorting and status filtering, kept dependency-free so the report works offline
+const HTML_REPORT_SCRIPT = `
+    document.querySelectorAll('table.sortable').forEach(function (table) {
+      table.querySelectorAll(':scope > thead th').forEach(function (th, column) {
+        th.addEventListener('click', function () {
+          var ascending = !th.classList.contains('asc');
+          table.querySelectorAll(':scope > thead th').forEach(function (other) { other.classList.remove('asc', 'desc'); });
+          th.classList.add(ascending ? 'asc' : 'desc');
+
+          var body = table.tBodies[0];
+          var rows = Array.prototype.slice.call(body.rows);
+          rows.sort(function (a, b) {
+            var left = a.cells[column].getAttribute('data-value') || '';
+            var right = b.cells[column].getAttribute('data-value') || '';
+            var result = isNaN(left) || isNaN(right) ? left.localeCompare(right) : Number(left) - Number(right);
+            return ascending ? result : -result;
+          });
+          rows.forEach(function (row) { body.appendChild(row); });
+        });
+      });
+    });
+
+    document.querySelectorAll('.filters button').forEach(function (button) {
+      button.addEventListener('click', function () {
+        var filter = button.getAttribute('data-filter');
+        document.querySelectorAll('.filters button').forEach(function (other) { other.classList.toggle('active', other === button); });
+        document.querySelectorAll('tr[data-statuses]').forEach(function (row) {
+          var statuses = row.getAttribute('data-statuses').split(' ');
+          row.classList.toggle('hidden', filter !== 'all' && statuses.indexOf(filter) === -1);
+        });
+        document.querySelectorAll('tr[data-status]').forEach(function (row) {
+          row.classList.toggle('hidden', filter !== 'all' && row.getAttribute('data-status') !== filter);
+        });
+      });
+    });
+`;
+
+// How a file with limited usages shows up in JUnit output
+export type JUnitLimitedOutcome = 'failure' | 'skipped' | 'pass';
+
+export interface ReporterOptions {
+  // List every usage that is not Baseline in the table output
+  verbose?: boolean;
+  // Limited usages fail the file's test case, skip it, or are ignored (default 'skipped')
+  junitLimited?: JUnitLimitedOutcome;
+}
 
 export class Reporter {
-  constructor(private results: AnalysisResult) {}
+  constructor(private results: AnalysisResult, private options: ReporterOptions = {}) {}
 
   print(format: string = 'table'): void {
     switch (format) {
       case 'json':
         this.printJSON();
         break;
+      case 'sarif':
+        console.log(this.generateSARIF());
+        break;
+      case 'github':
+        this.printGitHub();
+        break;
+      case 'junit':
+        console.log(this.generateJUnit());
+        break;
       case 'table':
       default:
         this.printTable();
@@ -28,6 +146,15 @@ export class Reporter {
       case 'html':
         content = this.generateHTML();
         break;
+      case 'sarif':
+        content = this.generateSARIF();
+        break;
+      case 'github':
+        content = this.generateMarkdownSummary();
+        break;
+      case 'junit':
+        content = this.generateJUnit();
+        break;
       default:
         content = this.generateTextReport();
         break;
@@ -40,15 +167,18 @@ export class Reporter {
     console.log(chalk.bold('\n📊 Baseline Compatibility Report\n'));
 
     // Summary
+    const labels = this.getCountLabels();
     const summaryData = [
       ['Metric', 'Value'],
+      ...(this.results.targets ? [['Targets', this.results.targets]] : []),
       ['Total Files', this.results.totalFiles.toString()],
       ['CSS Files', this.results.cssFiles.toString()],
       ['JavaScript Files', this.results.jsFiles.toString()],
-      ['Baseline Score', this.colorizeScore(this.results.baselineScore) + '%'],
-      ['Baseline Features', chalk.green(this.results.baselineCount.toString())],
-      ['Limited Features', chalk.yellow(this.results.limitedCount.toString())],
-      ['Non-Baseline Features', chalk.red(this.results.nonBaselineCount.toString())]
+      [labels.score, this.colorizeScore(this.results.baselineScore) + '%'],
+      [labels.baseline, chalk.green(this.results.baselineCount.toString())],
+      [labels.guarded, chalk.blue(this.results.guardedCount.toString())],
+      [labels.limited, chalk.yellow(this.results.limitedCount.toString())],
+      [labels.nonBaseline, chalk.red(this.results.nonBaselineCount.toString())]
     ];
 
     console.log(table(summaryData));
@@ -80,6 +210,37 @@ export class Reporter {
       ];
       console.log(table(jsData));
     }
+
+    // Where each usage that is not Baseline is
+    const usages = this.getReportedUsages();
+    if (this.options.verbose && usages.length > 0) {
+      console.log(chalk.bold('\n📍 Usages\n'));
+      const usageData = [
+        ['Location', 'Feature', 'Status', 'Code'],
+        ...usages.map(u => [
+          this.formatUsageLocation(u),
+          this.getFeatureName(u.feature),
+          u.guarded ? chalk.blue('◐ Progressively enhanced') : this.colorizeStatus(u.status),
+          chalk.dim(u.snippet)
+        ])
+      ];
+      console.log(table(usageData, { columns: { 3: { width: 50, truncate: 100 } } }));
+    }
+
+    // Suppressions, so intentional exceptions stay visible
+    if (this.results.suppressions.length > 0) {
+      console.log(chalk.bold('\n🔕 Suppressions\n'));
+      const suppressionData = [
+        ['Location', 'Directive', 'Silenced', 'Reason'],
+        ...this.results.suppressions.map(s => [
+          this.formatLocation(s),
+          this.formatDirective(s),
+          s.features.join(', ') || chalk.dim('nothing'),
+          s.reason || chalk.yellow('(no reason given)')
+        ])
+      ];
+      console.log(table(suppressionData));
+    }
   }
 
   private printJSON(): void {
@@ -87,48 +248,433 @@ export class Reporter {
   }
 
   private generateTextReport(): string {
+    const labels = this.getCountLabels();
     let report = '# Baseline Compatibility Report\n\n';
+    if (this.results.targets) {
+      report += `Targets: ${this.results.targets}\n`;
+    }
     report += `Total Files: ${this.results.totalFiles}\n`;
-    report += `Baseline Score: ${this.results.baselineScore}%\n`;
-    report += `Baseline Features: ${this.results.baselineCount}\n`;
-    report += `Limited Features: ${this.results.limitedCount}\n`;
-    report += `Non-Baseline Features: ${this.results.nonBaselineCount}\n`;
+    report += `${labels.score}: ${this.results.baselineScore}%\n`;
+    report += `${labels.baseline}: ${this.results.baselineCount}\n`;
+    report += `${labels.guarded}: ${this.results.guardedCount}\n`;
+    report += `${labels.limited}: ${this.results.limitedCount}\n`;
+    report += `${labels.nonBaseline}: ${this.results.nonBaselineCount}\n`;
+
+    if (this.results.suppressions.length > 0) {
+      report += `\n## Suppressions (${this.results.suppressions.length})\n\n`;
+      for (const s of this.results.suppressions) {
+        const silenced = s.features.join(', ') || 'nothing';
+        report += `- ${this.formatLocation(s)} ${this.formatDirective(s)}: ${silenced}${s.reason ? ` (${s.reason})` : ''}\n`;
+      }
+    }
     return report;
   }
 
+  /**
+   * Self-contained HTML report: summary, sortable per-feature and per-file
+   * tables that filter by status and expand to show each usage, browser
+   * support and links. Needs nothing but a browser to open.
+   */
   private generateHTML(): string {
+    const labels = this.getCountLabels();
+    const features = [...this.results.cssFeatures, ...this.results.jsFeatures];
+    const usages = this.results.fileResults.flatMap(result => result.usages);
+
+    const featureRows = features.map(f => {
+      const featureUsages = usages.filter(u => u.feature === f.feature);
+      const statuses = new Set(featureUsages.map(u => this.getBadgeStatus(u)));
+      const links = [
+        f.mdnUrl ? `<a href="${this.escapeXml(f.mdnUrl)}">MDN</a>` : '',
+        f.specUrl ? `<a href="${this.escapeXml(f.specUrl)}">Specification</a>` : ''
+      ].filter(Boolean).join(' · ');
+      const support = HTML_BROWSERS.map(([key, label]) => {
+        const version = f.browserSupport[key];
+        return `<td class="${version ? 'supported' : 'unsupported'}">${label}<br><strong>${version ? this.escapeHtml(version) : '✗'}</strong></td>`;
+      }).join('');
+      const usageList = featureUsages.map(u => `
+              <tr data-status="${this.getBadgeStatus(u)}"><td>${this.escapeHtml(this.formatUsageLocation(u))}</td><td>${this.statusBadge(u.status, u.guarded)}</td><td><code>${this.escapeHtml(u.snippet)}</code></td></tr>`).join('');
+
+      return `
+        <tr data-statuses="${Array.from(statuses).join(' ')}">
+          <td data-value="${this.escapeXml(f.name.toLowerCase())}">
+            <details>
+              <summary>${this.escapeHtml(f.name)}</summary>
+              <p>${this.escapeHtml(f.description)}</p>
+              <table class="support"><tr>${support}</tr></table>
+              ${links ? `<p>${links}</p>` : ''}
+              <table class="usages">${usageList}
+              </table>
+            </details>
+          </td>
+          <td data-value="${this.results.cssFeatures.includes(f) ? 'css' : 'js'}">${this.results.cssFeatures.includes(f) ? 'CSS' : 'JavaScript'}</td>
+          <td data-value="${HTML_STATUS_ORDER[f.status]}">${this.statusBadge(f.status)}</td>
+          <td data-value="${f.count}">${f.count}</td>
+          <td data-value="${featureUsages.length}">${featureUsages.length}</td>
+        </tr>`;
+    }).join('');
+
+    const fileRows = this.results.fileResults.filter(f => f.usages.length > 0).map(f => {
+      const name = this.relativePath(f.file);
+      const statuses = new Set(f.usages.map(u => this.getBadgeStatus(u)));
+      const usageList = f.usages.map(u => `
+              <tr data-status="${this.getBadgeStatus(u)}"><td>${u.line}:${u.column}</td><td>${this.escapeHtml(this.getFeatureName(u.feature))}</td><td>${this.statusBadge(u.status, u.guarded)}</td><td><code>${this.escapeHtml(u.snippet)}</code></td></tr>`).join('');
+
+      return `
+        <tr data-statuses="${Array.from(statuses).join(' ')}">
+          <td data-value="${this.escapeXml(name)}">
+            <details>
+              <summary>${this.escapeHtml(name)}</summary>
+              <table class="usages">${usageList}
+              </table>
+            </details>
+          </td>
+          <td data-value="${f.nonBaselineCount}">${f.nonBaselineCount}</td>
+          <td data-value="${f.limitedCount}">${f.limitedCount}</td>
+          <td data-value="${f.guardedCount}">${f.guardedCount}</td>
+          <td data-value="${f.baselineCount}">${f.baselineCount}</td>
+        </tr>`;
+    }).join('');
+
+    const suppressionRows = this.results.suppressions.map(s => `
+        <tr><td>${this.escapeHtml(this.formatLocation(s))}</td><td><code>${this.escapeHtml(this.formatDirective(s))}</code></td><td>${this.escapeHtml(s.features.join(', ') || 'nothing')}</td><td>${this.escapeHtml(s.reason || '')}</td></tr>`).join('');
+    const suppressionSection = suppressionRows ? `
+  <h2>🔕 Suppressions</h2>
+  <table>
+    <thead><tr><th>Location</th><th>Directive</th><th>Silenced</th><th>Reason</th></tr></thead>
+    <tbody>${suppressionRows}
+    </tbody>
+  </table>` : '';
+
+    const card = (status: string, label: string, count: number) =>
+      `<div class="card ${status}"><div class="count">${count}</div><div>${this.escapeHtml(label)}</div></div>`;
+
     return `<!DOCTYPE html>
-<html>
+<html lang="en">
 <head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
   <title>Baseline Compatibility Report</title>
-  <style>
-    body { font-family: system-ui; padding: 40px; max-width: 1200px; margin: 0 auto; }
-    h1 { color: #333; }
-    .score { font-size: 48px; font-weight: bold; margin: 20px 0; }
-    .score.high { color: #4CAF50; }
-    .score.medium { color: #FF9800; }
-    .score.low { color: #F44336; }
-    table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-    th, td { padding: 12px; text-align: left; border-bottom: 1px solid #ddd; }
-    th { background: #f5f5f5; }
-    .baseline { color: #4CAF50; }
-    .limited { color: #FF9800; }
-    .non-baseline { color: #F44336; }
-  </style>
+  <style>${HTML_REPORT_STYLE}</style>
 </head>
 <body>
   <h1>📊 Baseline Compatibility Report</h1>
   <div class="score ${this.getScoreClass(this.results.baselineScore)}">${this.results.baselineScore}%</div>
-  
-  <h2>Summary</h2>
-  <table>
-    <tr><td>Total Files</td><td>${this.results.totalFiles}</td></tr>
-    <tr><td>Baseline Features</td><td>${this.results.baselineCount}</td></tr>
-    <tr><td>Limited Features</td><td>${this.results.limitedCount}</td></tr>
-    <tr><td>Non-Baseline Features</td><td>${this.results.nonBaselineCount}</td></tr>
+  <p class="meta">${this.escapeHtml(labels.score)} · ${this.results.totalFiles} files (${this.results.cssFiles} CSS, ${this.results.jsFiles} JavaScript)${this.results.targets ? ` · Targets: <code>${this.escapeHtml(this.results.targets)}</code>` : ''} · Generated ${new Date().toISOString()}</p>
+
+  <div class="cards">
+    ${card('baseline', labels.baseline, this.results.baselineCount)}
+    ${card('guarded', labels.guarded, this.results.guardedCount)}
+    ${card('limited', labels.limited, this.results.limitedCount)}
+    ${card('not-baseline', labels.nonBaseline, this.results.nonBaselineCount)}
+  </div>
+
+  <div class="filters">
+    Show:
+    <button data-filter="all" class="active">All</button>
+    <button data-filter="not-baseline">${this.escapeHtml(this.getStatusLabel('not-baseline'))}</button>
+    <button data-filter="limited">${this.escapeHtml(this.getStatusLabel('limited'))}</button>
+    <button data-filter="guarded">${this.escapeHtml(this.getStatusLabel('limited', true))}</button>
+    <button data-filter="baseline">${this.escapeHtml(this.getStatusLabel('baseline'))}</button>
+  </div>
+
+  <h2>🧩 Features</h2>
+  <table class="sortable">
+    <thead><tr><th>Feature</th><th>Type</th><th>Status</th><th>Files</th><th>Usages</th></tr></thead>
+    <tbody>${featureRows}
+    </tbody>
   </table>
+
+  <h2>📁 Files</h2>
+  <table class="sortable">
+    <thead><tr><th>File</th><th>${this.escapeHtml(labels.nonBaseline)}</th><th>${this.escapeHtml(labels.limited)}</th><th>${this.escapeHtml(labels.guarded)}</th><th>${this.escapeHtml(labels.baseline)}</th></tr></thead>
+    <tbody>${fileRows}
+    </tbody>
+  </table>${suppressionSection}
+
+  <script>${HTML_REPORT_SCRIPT}</script>
 </body>
-</html>`;
+</html>
+`;
+  }
+
+  private getBadgeStatus(usage: UsageLocation): string {
+    return usage.guarded ? 'guarded' : usage.status;
+  }
+
+  private statusBadge(status: BaselineStatus, guarded?: boolean): string {
+    return `<span class="badge ${guarded ? 'guarded' : status}">${this.escapeHtml(this.getStatusLabel(status, guarded))}</span>`;
+  }
+
+  /**
+   * SARIF 2.1.0 log for code-scanning tools: a rule per web feature and a
+   * result per usage that is not Baseline
+   */
+  private generateSARIF(): string {
+    const features = new Map<string, FeatureUsage>(
+      [...this.results.cssFeatures, ...this.results.jsFeatures].map(f => [f.feature, f])
+    );
+    const reported = this.getReportedUsages();
+
+    const ruleIds = Array.from(new Set(reported.map(usage => usage.feature))).sort();
+    const rules = ruleIds.map(id => {
+      const feature = features.get(id);
+      return {
+        id,
+        name: feature?.name || id,
+        shortDescription: { text: feature?.name || id },
+        ...(feature?.description ? { fullDescription: { text: feature.description } } : {}),
+        ...(feature?.mdnUrl ? { helpUri: feature.mdnUrl } : {}),
+        defaultConfiguration: { level: SARIF_LEVELS[feature?.status === 'limited' ? 'limited' : 'not-baseline'] },
+        properties: { tags: ['baseline', feature?.status || 'not-baseline'] }
+      };
+    });
+
+    const results = reported.map(usage => ({
+      ruleId: usage.feature,
+      ruleIndex: ruleIds.indexOf(usage.feature),
+      level: SARIF_LEVELS[usage.guarded ? 'guarded' : usage.status as Exclude<BaselineStatus, 'baseline'>],
+      message: { text: this.describeUsage(usage, features.get(usage.feature)?.name || usage.feature) },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: this.relativePath(usage.file) },
+          region: {
+            startLine: usage.line,
+            startColumn: usage.column,
+            endLine: usage.endLine,
+            endColumn: usage.endColumn
+          }
+        }
+      }]
+    }));
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'baseline',
+            informationUri: 'https://web.dev/baseline',
+            rules
+          }
+        },
+        ...(this.results.targets ? { properties: { targets: this.results.targets } } : {}),
+        results
+      }]
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+
+  /**
+   * GitHub Actions output: an annotation per usage that is limited or not
+   * Baseline, and a Markdown job summary when the step has one
+   */
+  private printGitHub(): void {
+    for (const usage of this.getReportedUsages()) {
+      if (usage.guarded) {
+        continue;
+      }
+      console.log(workflowCommand(
+        usage.status === 'limited' ? 'warning' : 'error',
+        this.describeUsage(usage, this.getFeatureName(usage.feature)),
+        {
+          file: this.relativePath(usage.file),
+          line: usage.line,
+          col: usage.column,
+          endLine: usage.endLine,
+          endColumn: usage.endColumn,
+          title: `Baseline: ${this.getFeatureName(usage.feature)}`
+        }
+      ));
+    }
+
+    const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+    if (summaryFile) {
+      fs.appendFileSync(summaryFile, this.generateMarkdownSummary(), 'utf-8');
+    }
+  }
+
+  private generateMarkdownSummary(): string {
+    const labels = this.getCountLabels();
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines: string[] = [
+      '## 📊 Baseline Compatibility Report',
+      '',
+      `**${labels.score}: ${this.results.baselineScore}%**${this.results.targets ? ` (targets: \`${this.results.targets}\`)` : ''}`,
+      '',
+      '| Metric | Value |',
+      '| --- | ---: |',
+      `| Files analyzed | ${this.results.totalFiles} |`,
+      `| ${labels.baseline} | ${this.results.baselineCount} |`,
+      `| ${labels.guarded} | ${this.results.guardedCount} |`,
+      `| ${labels.limited} | ${this.results.limitedCount} |`,
+      `| ${labels.nonBaseline} | ${this.results.nonBaselineCount} |`,
+      ''
+    ];
+
+    const featureTable = (title: string, features: FeatureUsage[]) => {
+      if (features.length === 0) {
+        return;
+      }
+      lines.push(`### ${title}`, '', '| Feature | Status | Files |', '| --- | --- | ---: |');
+      for (const f of features.slice(0, 10)) {
+        const name = f.mdnUrl ? `[${cell(f.name)}](${f.mdnUrl})` : cell(f.name);
+        lines.push(`| ${name} | ${this.getStatusLabel(f.status)} | ${f.count} |`);
+      }
+      lines.push('');
+    };
+    featureTable('🎨 Top CSS Features', this.results.cssFeatures);
+    featureTable('⚡ Top JavaScript APIs', this.results.jsFeatures);
+
+    // Files with something to fix, worst first
+    const files = this.results.fileResults
+      .filter(f => f.limitedCount + f.nonBaselineCount > 0)
+      .sort((a, b) => b.nonBaselineCount - a.nonBaselineCount || b.limitedCount - a.limitedCount);
+    if (files.length > 0) {
+      lines.push(
+        '### 📁 Files',
+        '',
+        `| File | ${labels.nonBaseline} | ${labels.limited} | ${labels.guarded} | ${labels.baseline} |`,
+        '| --- | ---: | ---: | ---: | ---: |'
+      );
+      for (const f of files) {
+        lines.push(`| \`${cell(this.relativePath(f.file))}\` | ${f.nonBaselineCount} | ${f.limitedCount} | ${f.guardedCount} | ${f.baselineCount} |`);
+      }
+      lines.push('');
+    }
+
+    if (this.results.suppressions.length > 0) {
+      lines.push(`### 🔕 Suppressions (${this.results.suppressions.length})`, '', '| Location | Directive | Reason |', '| --- | --- | --- |');
+      for (const s of this.results.suppressions) {
+        lines.push(`| \`${cell(this.formatLocation(s))}\` | \`${cell(this.formatDirective(s))}\` | ${cell(s.reason || '_no reason given_')} |`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * JUnit XML with a test suite per language and a test case per analyzed
+   * file. Non-Baseline usages fail the file; limited ones fail it, skip it
+   * or pass depending on the `junitLimited` option.
+   */
+  private generateJUnit(): string {
+    const limitedOutcome = this.options.junitLimited || 'skipped';
+    const suites = [
+      { name: 'Baseline CSS', files: this.results.fileResults.filter(f => f.language === 'css') },
+      { name: 'Baseline JavaScript', files: this.results.fileResults.filter(f => f.language === 'js') }
+    ].filter(suite => suite.files.length > 0);
+
+    let totalTests = 0;
+    let totalFailures = 0;
+    let totalSkipped = 0;
+
+    const suiteXml = suites.map(suite => {
+      let failures = 0;
+      let skipped = 0;
+
+      const cases = suite.files.map(file => {
+        const { failing, limited } = this.junitFindings(file, limitedOutcome);
+        const name = this.relativePath(file.file);
+        const open = `    <testcase classname="${this.escapeXml(suite.name)}" name="${this.escapeXml(name)}" file="${this.escapeXml(name)}">`;
+
+        if (failing.length > 0) {
+          failures++;
+          const message = `${failing.length} ${failing.length === 1 ? 'usage is' : 'usages are'} not ${this.results.targets ? 'supported by your targets' : 'Baseline'}`;
+          const details = failing.map(u => `${this.formatUsageLocation(u)} ${this.describeUsage(u, this.getFeatureName(u.feature))}`).join('\n');
+          return `${open}\n      <failure message="${this.escapeXml(message)}" type="baseline">${this.escapeXml(details)}</failure>\n    </testcase>`;
+        }
+        if (limited.length > 0) {
+          skipped++;
+          const message = `${limited.length} limited ${limited.length === 1 ? 'usage' : 'usages'}: ${Array.from(new Set(limited.map(u => this.getFeatureName(u.feature)))).join(', ')}`;
+          return `${open}\n      <skipped message="${this.escapeXml(message)}"/>\n    </testcase>`;
+        }
+        return open.replace(/>$/, '/>');
+      });
+
+      totalTests += suite.files.length;
+      totalFailures += failures;
+      totalSkipped += skipped;
+      return `  <testsuite name="${this.escapeXml(suite.name)}" tests="${suite.files.length}" failures="${failures}" errors="0" skipped="${skipped}">\n${cases.join('\n')}\n  </testsuite>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="Baseline" tests="${totalTests}" failures="${totalFailures}" errors="0" skipped="${totalSkipped}">`,
+      ...suiteXml,
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+
+  // Usages that fail a file's test case, and limited ones that skip it
+  private junitFindings(file: FileResult, limitedOutcome: JUnitLimitedOutcome): { failing: UsageLocation[]; limited: UsageLocation[] } {
+    const unguarded = file.usages.filter(u => !u.guarded);
+    const limited = unguarded.filter(u => u.status === 'limited');
+    const failing = unguarded.filter(u => u.status === 'not-baseline' || (u.status === 'limited' && limitedOutcome === 'failure'));
+    return { failing, limited: limitedOutcome === 'skipped' ? limited : [] };
+  }
+
+  private describeUsage(usage: UsageLocation, featureName: string): string {
+    if (usage.guarded) {
+      return `${featureName} (${usage.name}) is progressively enhanced: it is only used behind a feature check`;
+    }
+    if (this.results.targets) {
+      return usage.status === 'limited'
+        ? `${featureName} (${usage.name}) is only partially supported by your targets`
+        : `${featureName} (${usage.name}) is not supported by your targets`;
+    }
+    return usage.status === 'limited'
+      ? `${featureName} (${usage.name}) is newly available and not yet widely supported`
+      : `${featureName} (${usage.name}) is not Baseline`;
+  }
+
+  // Usages worth pointing at: everything that is not plain Baseline
+  private getReportedUsages(): UsageLocation[] {
+    return this.results.fileResults
+      .flatMap(result => result.usages)
+      .filter(usage => usage.guarded || usage.status !== 'baseline');
+  }
+
+  private getFeatureName(id: string): string {
+    const feature = [...this.results.cssFeatures, ...this.results.jsFeatures].find(f => f.feature === id);
+    return feature?.name || id;
+  }
+
+  private getStatusLabel(status: BaselineStatus, guarded?: boolean): string {
+    if (guarded) {
+      return 'Progressively enhanced';
+    }
+    if (this.results.targets) {
+      return status === 'baseline' ? 'Supported by your targets' : status === 'limited' ? 'Partially supported' : 'Not supported by your targets';
+    }
+    return status === 'baseline' ? 'Baseline' : status === 'limited' ? 'Limited' : 'Not Baseline';
+  }
+
+  private formatUsageLocation(usage: UsageLocation): string {
+    return `${this.relativePath(usage.file)}:${usage.line}:${usage.column}`;
+  }
+
+  private relativePath(file: string): string {
+    return reportPath(this.results.projectPath, file);
+  }
+
+  private formatLocation(suppression: SuppressionEntry): string {
+    return `${this.relativePath(suppression.file)}:${suppression.line}`;
+  }
+
+  private formatDirective(suppression: SuppressionEntry): string {
+    return [`baseline-${suppression.kind}`, ...suppression.names].join(' ');
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private escapeXml(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;').replace(/'/g, '&apos;');
   }
 
   private colorizeScore(score: number): string {
@@ -138,14 +684,73 @@ export class Reporter {
   }
 
   private colorizeStatus(status: string): string {
+    if (this.results.targets) {
+      return status === 'baseline' ? chalk.green('✓ Supported by your targets')
+        : status === 'limited' ? chalk.yellow('⚠ Partially supported')
+        : chalk.red('✗ Not supported by your targets');
+    }
     if (status === 'baseline') return chalk.green('✓ Baseline');
     if (status === 'limited') return chalk.yellow('⚠ Limited');
     return chalk.red('✗ Not Baseline');
   }
 
+  // Counts mean target support rather than Baseline status when targets are set
+  private getCountLabels(): { score: string; baseline: string; guarded: string; limited: string; nonBaseline: string } {
+    if (this.results.targets) {
+      return {
+        score: 'Target Support Score',
+        baseline: 'Supported by Targets',
+        guarded: 'Progressively Enhanced',
+        limited: 'Partially Supported',
+        nonBaseline: 'Not Supported by Targets'
+      };
+    }
+    return {
+      score: 'Baseline Score',
+      baseline: 'Baseline Features',
+      guarded: 'Progressively Enhanced',
+      limited: 'Limited Features',
+      nonBaseline: 'Non-Baseline Features'
+    };
+  }
+
   private getScoreClass(score: number): string {
     if (score >= 80) return 'high';
     if (score >= 60) return 'medium';
     return 'low';
   }
 }
+
+// Where report paths start from, per project path
+const reportBases = new Map<string, string>();
+
+/**
+ * A file as reports show it: relative to the repository the project is in,
+ * or to the project outside a repository, with forward slashes. Code scanning
+ * and annotations resolve paths from the repository root, wherever the
+ * command ran.
+ */
+export function reportPath(projectPath: string, file: string): string {
+  let base = reportBases.get(projectPath);
+  if (base === undefined) {
+    base = findRepositoryRoot(projectPath) || projectPath;
+    reportBases.set(projectPath, base);
+  }
+  return path.relative(base, file).split(path.sep).join('/');
+}
+
+/**
+ * A GitHub Actions workflow command, e.g.
+ * `::error file=src/app.css,line=3::Container queries is not Baseline`
+ */
+export function workflowCommand(
+  command: 'error' | 'warning' | 'notice',
+  message: string,
+  properties: Record<string, string | number> = {}
+): string {
+  const escapeData = (text: string) => text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  const escapeProperty = (text: string) => escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+  const props = Object.entries(properties).map(([key, value]) => `${key}=${escapeProperty(String(value))}`).join(',');
+  return `::${command}${props ? ` ${props}` : ''}::${escapeData(message)}`;
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalysisResult, UsageLocation } from './analyzer';
+
+export const DEFAULT_SNAPSHOT_FILE = '.baseline-snapshot.json';
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * A recorded non-Baseline usage. Usages are matched on file, feature and
+ * fingerprint; the line is only there to help find it.
+ */
+export interface SnapshotEntry {
+  file: string; // relative to the project, with forward slashes
+  feature: string;
+  fingerprint: string;
+  line: number;
+}
+
+export interface SnapshotComparison {
+  // Usages the snapshot doesn't know about, which fail the check
+  added: UsageLocation[];
+  // Recorded usages that are gone, so the snapshot can shrink
+  fixed: SnapshotEntry[];
+  known: number;
+}
+
+/**
+ * Non-Baseline usages accepted as existing debt, committed alongside the
+ * code so CI only fails on new ones
+ */
+export class Snapshot {
+  constructor(readonly entries: SnapshotEntry[]) {}
+
+  /**
+   * The non-Baseline usages in an analysis. Guarded and limited usages
+   * don't fail a check, so they aren't recorded.
+   */
+  static fromResults(results: AnalysisResult): Snapshot {
+    return new Snapshot(failingUsages(results).map(usage => toEntry(results.projectPath, usage)));
+  }
+
+  /**
+   * Read a snapshot file, or return undefined when there is none
+   */
+  static load(file: string): Snapshot | undefined {
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    let data: { version?: unknown; usages?: unknown };
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (data.version !== SNAPSHOT_VERSION || !Array.isArray(data.usages)) {
+      throw new Error(`${file} is not a version ${SNAPSHOT_VERSION} baseline snapshot. Recreate it with --update-snapshot.`);
+    }
+
+    return new Snapshot(data.usages as SnapshotEntry[]);
+  }
+
+  write(file: string): void {
+    const usages = [...this.entries].sort((a, b) =>
+      a.file.localeCompare(b.file) || a.line - b.line || a.feature.localeCompare(b.feature));
+
+    fs.writeFileSync(file, JSON.stringify({ version: SNAPSHOT_VERSION, usages }, null, 2) + '\n', 'utf-8');
+  }
+
+  /**
+   * Match an analysis against the snapshot. A usage repeated on identical
+   * lines is matched as many times as it was recorded. Pass `reportFixed`
+   * false when only part of the project was analyzed.
+   */
+  compare(results: AnalysisResult, reportFixed = true): SnapshotComparison {
+    const remaining = new Map<string, SnapshotEntry[]>();
+    for (const entry of this.entries) {
+      const key = entryKey(entry);
+      remaining.set(key, [...(remaining.get(key) || []), entry]);
+    }
+
+    const added: UsageLocation[] = [];
+    let known = 0;
+    for (const usage of failingUsages(results)) {
+      const recorded = remaining.get(entryKey(toEntry(results.projectPath, usage)));
+      if (recorded && recorded.length > 0) {
+        recorded.shift();
+        known++;
+      } else {
+        added.push(usage);
+      }
+    }
+
+    const fixed = reportFixed ? Array.from(remaining.values()).flat() : [];
+    return { added, fixed, known };
+  }
+}
+
+function failingUsages(results: AnalysisResult): UsageLocation[] {
+  return results.fileResults
+    .flatMap(result => result.usages)
+    .filter(usage => usage.status === 'not-baseline' && !usage.guarded);
+}
+
+function toEntry(projectPath: string, usage: UsageLocation): SnapshotEntry {
+  return {
+    file: path.relative(projectPath, usage.file).split(path.sep).join('/'),
+    feature: usage.feature,
+    fingerprint: usage.fingerprint,
+    line: usage.line
+  };
+}
+
+function entryKey(entry: SnapshotEntry): string {
+  return `${entry.file}\0${entry.feature}\0${entry.fingerprint}`;
+}
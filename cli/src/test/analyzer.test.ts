@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeatureIndex, parseTargets } from '@baseline/core';
+import { AnalysisResult, ProjectAnalyzer } from '../analyzer';
+
+describe('ProjectAnalyzer', () => {
+  // Loading the feature data is the slow part, so tests share one index
+  const index = FeatureIndex.fromWebFeatures();
+  let project: string;
+
+  const file = (name: string) => path.join(project, name);
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+    fs.writeFileSync(file(name), content);
+  };
+  const features = (results: AnalysisResult) =>
+    results.fileResults.map(result => `${path.relative(project, result.file)}: ${result.features.join(', ')}`);
+
+  beforeEach(() => {
+    project = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-analyzer-'));
+    write('src/form.css', '.note { field-sizing: content; }\n');
+    write('src/app.js', 'const both = seen.union(next);\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(project, { recursive: true, force: true });
+  });
+
+  it('only reads the files reported as changed', async () => {
+    const analyzer = new ProjectAnalyzer(project, index);
+    await analyzer.analyze();
+
+    // app.js is edited too, but only form.css is reported
+    write('src/form.css', '.note { container-type: inline-size; }\n');
+    write('src/app.js', 'const last = items.at(-1);\n');
+    let results = await analyzer.analyze({ changedFiles: [file('src/form.css')] });
+    assert.deepStrictEqual(features(results), ['src/form.css: container-queries', 'src/app.js: set-methods']);
+    assert.strictEqual(analyzer.getStats()!.analyzed, 1);
+
+    // New files are found, deleted ones dropped
+    write('src/extra.css', '.a { field-sizing: content; }\n');
+    fs.rmSync(file('src/form.css'));
+    results = await analyzer.analyze({ changedFiles: [file('src/extra.css'), file('src/form.css')] });
+    assert.deepStrictEqual(features(results), ['src/extra.css: field-sizing', 'src/app.js: set-methods']);
+
+    // Without a list of changes, every file is read again
+    results = await analyzer.analyze();
+    assert.deepStrictEqual(features(results), ['src/extra.css: field-sizing', 'src/app.js: array-at']);
+  });
+
+  it('lists new files reported as changed by include and ignore', async () => {
+    const analyzer = new ProjectAnalyzer(project, index);
+    await analyzer.analyze();
+
+    write('src/new.css', '.a { container-type: size; }\n');
+    write('dist/app.js', 'const both = seen.union(next);\n');
+    assert.ok(analyzer.isIncluded(file('src/new.css')));
+    assert.ok(!analyzer.isIncluded(file('dist/app.js')));
+    assert.ok(!analyzer.isIncluded(file('src/new.css'), { ignore: ['src/*.css'] }));
+
+    const results = await analyzer.analyze({ changedFiles: [file('src/new.css'), file('dist/app.js')] });
+    assert.deepStrictEqual(features(results), ['src/form.css: field-sizing', 'src/new.css: container-queries', 'src/app.js: set-methods']);
+    assert.strictEqual(analyzer.getStats()!.analyzed, 1);
+  });
+
+  it('reads files again when the changed lines to check move', async () => {
+    const analyzer = new ProjectAnalyzer(project, index);
+    const lines = (ranges: Array<[string, number]>) => new Map(ranges.map(([name, line]) => [file(name), [{ start: line, end: line }]]));
+
+    write('src/form.css', '.note { field-sizing: content; }\n.other { container-type: size; }\n');
+    let results = await analyzer.analyze({ changedLines: lines([['src/form.css', 2]]) });
+    assert.deepStrictEqual(features(results), ['src/form.css: container-queries']);
+
+    // Staging more of the file changes what's checked without touching it
+    results = await analyzer.analyze({ changedLines: lines([['src/form.css', 1], ['src/app.js', 1]]), changedFiles: [] });
+    assert.deepStrictEqual(features(results), ['src/form.css: field-sizing', 'src/app.js: set-methods']);
+  });
+
+  describe('cache', () => {
+    const cacheDir = () => path.join(project, 'node_modules', '.cache', 'baseline');
+    const analyzeWith = async (analyzer = new ProjectAnalyzer(project, index)) => {
+      const results = await analyzer.analyze({ cacheDir: cacheDir() });
+      const { analyzed, cached } = analyzer.getStats()!;
+      return { results, analyzed, cached };
+    };
+
+    it('reuses results across runs until a file changes', async () => {
+      const first = await analyzeWith();
+      assert.deepStrictEqual([first.analyzed, first.cached], [2, 0]);
+
+      const second = await analyzeWith();
+      assert.deepStrictEqual([second.analyzed, second.cached], [0, 2]);
+      assert.deepStrictEqual(second.results.fileResults, first.results.fileResults);
+
+      write('src/app.js', 'const last = items.at(-1);\n');
+      const third = await analyzeWith();
+      assert.deepStrictEqual([third.analyzed, third.cached], [1, 1]);
+      assert.deepStrictEqual(features(third.results), ['src/form.css: field-sizing', 'src/app.js: array-at']);
+    });
+
+    it('keeps every file across runs on changed lines', async () => {
+      await analyzeWith();
+
+      const changedLines = new Map([[file('src/app.js'), [{ start: 1, end: 1 }]]]);
+      const analyzer = new ProjectAnalyzer(project, index);
+      const results = await analyzer.analyze({ cacheDir: cacheDir(), changedLines });
+      assert.deepStrictEqual(features(results), ['src/app.js: set-methods']);
+      assert.strictEqual(analyzer.getStats()!.cached, 1);
+
+      const full = await analyzeWith();
+      assert.deepStrictEqual([full.analyzed, full.cached], [0, 2]);
+      assert.deepStrictEqual(features(full.results), ['src/form.css: field-sizing', 'src/app.js: set-methods']);
+    });
+
+    it('is dropped for other targets, feature data or detector builds', async () => {
+      await analyzeWith();
+
+      assert.strictEqual((await analyzeWith(new ProjectAnalyzer(project, index, parseTargets('safari >= 16')))).analyzed, 2);
+      assert.strictEqual((await analyzeWith()).analyzed, 2);
+
+      const otherData = FeatureIndex.fromTables(index.toTables(), `${index.version}-next`);
+      assert.strictEqual((await analyzeWith(new ProjectAnalyzer(project, otherData))).analyzed, 2);
+      await analyzeWith();
+
+      // As written by another build of @baseline/core
+      const cacheFile = path.join(cacheDir(), 'analysis.json');
+      const cache = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+      cache.version = cache.version.replace(/:[^:+]+\+[0-9a-f]+:/, ':0.0.0+000000000000:');
+      fs.writeFileSync(cacheFile, JSON.stringify(cache));
+      assert.strictEqual((await analyzeWith()).analyzed, 2);
+    });
+
+    it('survives a corrupt cache file', async () => {
+      fs.mkdirSync(cacheDir(), { recursive: true });
+      fs.writeFileSync(path.join(cacheDir(), 'analysis.json'), '{"version":');
+      const { results, analyzed } = await analyzeWith();
+      assert.strictEqual(analyzed, 2);
+      assert.deepStrictEqual(features(results), ['src/form.css: field-sizing', 'src/app.js: set-methods']);
+      assert.strictEqual((await analyzeWith()).analyzed, 0);
+    });
+  });
+});
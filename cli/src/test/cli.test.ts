@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const BIN = path.join(__dirname, '..', '..', 'bin', 'baseline.js');
+
+describe('baseline check', function () {
+  // Each run loads the feature data in a new process
+  this.timeout(20000);
+
+  let project: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(project, file)), { recursive: true });
+    fs.writeFileSync(path.join(project, file), content);
+  };
+
+  const check = (...args: string[]) => {
+    const { status, stdout, stderr } = spawnSync(process.execPath, [BIN, 'check', '-p', project, '--no-cache', ...args], { encoding: 'utf-8' });
+    return { status, output: stdout + stderr };
+  };
+
+  beforeEach(() => {
+    project = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-check-'));
+    write('src/form.css', '.note {\n  field-sizing: content;\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(project, { recursive: true, force: true });
+  });
+
+  it('lets the snapshot decide the exit code', () => {
+    assert.strictEqual(check('--fail-on-non-baseline').status, 1);
+    assert.strictEqual(check('--fail-on-non-baseline', '--update-snapshot').status, 0);
+
+    // Recorded debt passes even though the score is below the threshold
+    let result = check('--fail-on-non-baseline');
+    assert.strictEqual(result.status, 0, result.output);
+    assert.match(result.output, /1 known, 0 new, 0 fixed/);
+
+    write('src/form.css', '.note {\n  field-sizing: content;\n}\n\n.other {\n  field-sizing: fixed;\n}\n');
+    result = check();
+    assert.strictEqual(result.status, 1, result.output);
+    assert.match(result.output, /1 known, 1 new, 0 fixed/);
+    assert.match(result.output, /src\/form\.css:6:3 field-sizing/);
+  });
+
+  it('takes settings from .baselinerc.json unless a flag overrides them', () => {
+    write('.baselinerc.json', JSON.stringify({ threshold: 0 }));
+    assert.doesNotMatch(check().output, /below threshold/);
+    assert.match(check('--threshold', '90').output, /Baseline score \(0%\) is below threshold \(90%\)/);
+
+    write('src/app.js', 'const both = seen.union(next);\n');
+    write('legacy/old.css', '.old { field-sizing: content; }\n');
+    write('.baselinerc.json', JSON.stringify({ include: ['**/*.css'], ignore: ['legacy/**'] }));
+    const report = path.join(project, 'report.json');
+    check('--format', 'json', '-o', report);
+    const { fileResults } = JSON.parse(fs.readFileSync(report, 'utf-8'));
+    assert.deepStrictEqual(fileResults.map((result: { file: string }) => path.relative(project, result.file)), ['src/form.css']);
+  });
+
+  it('checks only staged lines with --staged', () => {
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: project, stdio: 'pipe' });
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+
+    write('src/form.css', '.note {\n  field-sizing: content;\n}\n\n.other {\n  field-sizing: fixed;\n}\n');
+    assert.strictEqual(check('--staged', '--fail-on-non-baseline').status, 0);
+
+    git('add', 'src/form.css');
+    const result = check('--staged', '--fail-on-non-baseline', '--format', 'github');
+    assert.strictEqual(result.status, 1, result.output);
+    assert.deepStrictEqual(result.output.match(/^::error file=[^,]+,line=\d+/gm), ['::error file=src/form.css,line=6']);
+  });
+});
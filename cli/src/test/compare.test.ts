@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComparisonReporter, compareResults, readAnalysisReport } from '../compare';
+import { assertMatchesFixture, fixture } from './helpers';
+
+describe('Report comparison', () => {
+  // before.json is from a version that didn't count guarded usages
+  const compare = () => compareResults(readAnalysisReport(fixture('before.json')), readAnalysisReport(fixture('after.json')));
+
+  it('compares totals, features, file statuses and usages', () => {
+    const comparison = compare();
+    assert.deepStrictEqual(comparison.before, { score: 0, files: 2, baseline: 0, guarded: 0, limited: 2, nonBaseline: 0 });
+    assert.deepStrictEqual(comparison.after, { score: 40, files: 2, baseline: 0, guarded: 2, limited: 1, nonBaseline: 2 });
+    assert.strictEqual(comparison.scoreDelta, 40);
+    assert.strictEqual(comparison.targetsChanged, undefined);
+
+    assert.deepStrictEqual(comparison.addedFeatures.map(f => f.feature).sort(), ['field-sizing', 'set-methods', 'view-transitions']);
+    assert.deepStrictEqual(comparison.removedFeatures.map(f => f.feature), ['array-at']);
+    assert.deepStrictEqual(comparison.worsenedFiles, [
+      { file: 'src/styles.css', before: 'limited', after: 'not-baseline' },
+      { file: 'src/share.js', before: 'limited', after: 'not-baseline' }
+    ]);
+    assert.deepStrictEqual(comparison.newUsages.map(u => `${u.file}:${u.line} ${u.featureName}`), [
+      'src/styles.css:7 field-sizing',
+      'src/share.js:2 Set methods'
+    ]);
+  });
+
+  it('writes the comparison as Markdown', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-compare-'));
+    try {
+      const file = path.join(dir, 'diff.md');
+      new ComparisonReporter(compare()).writeToFile(file, 'markdown');
+      assertMatchesFixture(fs.readFileSync(file, 'utf-8'), 'compare.md');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects files that are not reports', () => {
+    assert.throws(() => readAnalysisReport(fixture('after.sarif')), /is not a JSON report from baseline check --format json/);
+    assert.throws(() => readAnalysisReport(fixture('missing.json')), /Could not read .*missing\.json/);
+  });
+});
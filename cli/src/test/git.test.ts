@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitDiff, isLineChanged } from '../git';
+
+describe('GitDiff', () => {
+  let repo: string;
+
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+
+  const write = (file: string, lines: string[]) => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), lines.map(line => `${line}\n`).join(''));
+  };
+
+  beforeEach(() => {
+    // realpath, since git reports paths without the symlinks tmp may have
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-git-')));
+    git('init', '-q', '-b', 'main');
+    write('web/src/app.css', ['a', 'b', 'c', 'd']);
+    write('web/src/old.js', ['x']);
+    write('server/index.js', ['y']);
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+    git('checkout', '-q', '-b', 'feature');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('lists lines changed since a branch, with untracked files in full', () => {
+    write('web/src/app.css', ['a', 'B', 'c', 'd', 'e', 'f']);
+    git('commit', '-q', '-am', 'edit');
+    write('web/src/new.css', ['n']);
+    fs.rmSync(path.join(repo, 'web/src/old.js'));
+    write('server/index.js', ['z']);
+
+    // Only the project directory counts, and deleted files have nothing to check
+    const web = path.join(repo, 'web');
+    const changed = GitDiff.since('main', web);
+    assert.deepStrictEqual(Array.from(changed.keys()).sort(), [path.join(web, 'src/app.css'), path.join(web, 'src/new.css')]);
+    assert.deepStrictEqual(changed.get(path.join(web, 'src/app.css')), [{ start: 2, end: 2 }, { start: 5, end: 6 }]);
+    assert.ok(isLineChanged(changed.get(path.join(web, 'src/new.css'))!, 1000));
+  });
+
+  it('lists staged lines only', () => {
+    write('web/src/app.css', ['a', 'b', 'C', 'd']);
+    git('add', 'web/src/app.css');
+    write('web/src/app.css', ['A', 'b', 'C', 'd']);
+    write('web/src/new.css', ['n']);
+
+    const changed = GitDiff.staged(repo);
+    assert.deepStrictEqual(Array.from(changed.entries()), [[path.join(repo, 'web/src/app.css'), [{ start: 3, end: 3 }]]]);
+  });
+
+  it('reads lines that look like file headers as changes', () => {
+    write('web/src/app.css', ['a', '-- b', 'c', 'd']);
+    git('commit', '-q', '-am', 'dashes');
+
+    // Shown as `--- b` and `+++ b`, then `+++ e`
+    write('web/src/app.css', ['a', '++ b', 'c', 'd', '++ e']);
+    git('add', 'web/src/app.css');
+
+    const changed = GitDiff.staged(repo);
+    assert.deepStrictEqual(Array.from(changed.entries()), [[path.join(repo, 'web/src/app.css'), [{ start: 2, end: 2 }, { start: 5, end: 5 }]]]);
+  });
+
+  it('fails with what git said', () => {
+    assert.throws(() => GitDiff.since('no-such-branch', repo), /git merge-base no-such-branch HEAD failed: .+/);
+  });
+});
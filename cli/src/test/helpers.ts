@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Tests run from dist/test, fixtures stay next to the sources
+export const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+export function fixture(name: string): string {
+  return path.join(FIXTURES, name);
+}
+
+/**
+ * Compare output with a file under fixtures. Run the tests with
+ * UPDATE_FIXTURES=1 to rewrite the file after an intended change.
+ */
+export function assertMatchesFixture(actual: string, name: string): void {
+  if (process.env.UPDATE_FIXTURES) {
+    fs.writeFileSync(fixture(name), actual, 'utf-8');
+  }
+  assert.strictEqual(actual, fs.readFileSync(fixture(name), 'utf-8'));
+}
+
+/**
+ * What a function printed with console.log, one line per call
+ */
+export function captureLog(run: () => void): string {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => {
+    lines.push(args.join(' '));
+  };
+  try {
+    run();
+  } finally {
+    console.log = log;
+  }
+  return lines.map(line => `${line}\n`).join('');
+}
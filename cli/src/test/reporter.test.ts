@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readAnalysisReport } from '../compare';
+import { Reporter, reportPath } from '../reporter';
+import { assertMatchesFixture, captureLog, fixture } from './helpers';
+
+describe('Reporter', () => {
+  let dir: string;
+
+  // Report fixtures are checked in at /work/app, outside any repository, so
+  // paths come out relative to the project
+  const reporter = () => new Reporter(readAnalysisReport(fixture('after.json')));
+
+  const written = async (format: string) => {
+    const file = path.join(dir, `report.${format}`);
+    await reporter().writeToFile(file, format);
+    return fs.readFileSync(file, 'utf-8');
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-reporter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes SARIF with a rule per feature and a result per reported usage', async () => {
+    assertMatchesFixture(await written('sarif'), 'after.sarif');
+  });
+
+  it('prints GitHub annotations and appends the job summary', () => {
+    const summary = path.join(dir, 'summary.md');
+    const previous = process.env.GITHUB_STEP_SUMMARY;
+    process.env.GITHUB_STEP_SUMMARY = summary;
+    try {
+      assertMatchesFixture(captureLog(() => reporter().print('github')), 'after.github.txt');
+    } finally {
+      if (previous === undefined) {
+        delete process.env.GITHUB_STEP_SUMMARY;
+      } else {
+        process.env.GITHUB_STEP_SUMMARY = previous;
+      }
+    }
+    assertMatchesFixture(fs.readFileSync(summary, 'utf-8'), 'after.summary.md');
+  });
+
+  it('writes a JUnit test case per file that fails on usages that are not Baseline', async () => {
+    assertMatchesFixture(await written('junit'), 'after.junit.xml');
+
+    // Limited usages can be made to fail too
+    const file = path.join(dir, 'strict.xml');
+    await new Reporter(readAnalysisReport(fixture('after.json')), { junitLimited: 'failure' }).writeToFile(file, 'junit');
+    assert.match(fs.readFileSync(file, 'utf-8'), /<failure message="2 usages are not Baseline" type="baseline">src\/styles.css:3:3 Container queries/);
+  });
+
+  it('writes an HTML report with every usage, escaped', async () => {
+    const html = (await written('html')).replace(/Generated [\d-]+T[\d:.]+Z/, 'Generated <date>');
+    assertMatchesFixture(html, 'after.html');
+  });
+
+  it('makes paths relative to the repository the project is in', () => {
+    fs.mkdirSync(path.join(dir, 'repo', '.git'), { recursive: true });
+    const project = path.join(dir, 'repo', 'web');
+    assert.strictEqual(reportPath(project, path.join(project, 'src', 'app.css')), 'web/src/app.css');
+
+    // Worktrees and submodules have a .git file instead
+    fs.mkdirSync(path.join(dir, 'worktree'));
+    fs.writeFileSync(path.join(dir, 'worktree', '.git'), 'gitdir: ../repo/.git/worktrees/worktree\n');
+    const worktreeProject = path.join(dir, 'worktree', 'web');
+    assert.strictEqual(reportPath(worktreeProject, path.join(worktreeProject, 'app.js')), 'web/app.js');
+  });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisResult, UsageLocation } from '../analyzer';
+import { readAnalysisReport } from '../compare';
+import { Snapshot } from '../snapshot';
+import { fixture } from './helpers';
+
+describe('Snapshot', () => {
+  const results = () => readAnalysisReport(fixture('after.json'));
+
+  // The same results with each file's usages changed
+  const withUsages = (base: AnalysisResult, change: (usages: UsageLocation[]) => UsageLocation[]): AnalysisResult => ({
+    ...base,
+    fileResults: base.fileResults.map(result => ({ ...result, usages: change(result.usages) }))
+  });
+
+  it('records only usages that are neither Baseline, limited nor guarded', () => {
+    const { entries } = Snapshot.fromResults(results());
+    assert.deepStrictEqual(entries.map(({ file, feature, line }) => ({ file, feature, line })), [
+      { file: 'src/styles.css', feature: 'field-sizing', line: 7 },
+      { file: 'src/share.js', feature: 'set-methods', line: 2 }
+    ]);
+  });
+
+  it('matches usages that moved and reports new and fixed ones', () => {
+    const snapshot = Snapshot.fromResults(results());
+    assert.deepStrictEqual(snapshot.compare(results()), { added: [], fixed: [], known: 2 });
+
+    // Code added above a usage moves it without making it new
+    const moved = withUsages(results(), usages => usages.map(usage => ({ ...usage, line: usage.line + 10 })));
+    assert.deepStrictEqual(snapshot.compare(moved), { added: [], fixed: [], known: 2 });
+
+    // A copy of a recorded line is new; only as many as were recorded match
+    const copied = withUsages(results(), usages => [...usages, ...usages.filter(u => u.feature === 'set-methods').map(u => ({ ...u, line: 20 }))]);
+    const comparison = snapshot.compare(copied);
+    assert.deepStrictEqual(comparison.added.map(u => [u.feature, u.line]), [['set-methods', 20]]);
+    assert.strictEqual(comparison.known, 2);
+
+    const fixed = withUsages(results(), usages => usages.filter(u => u.feature !== 'field-sizing'));
+    assert.deepStrictEqual(snapshot.compare(fixed).fixed.map(entry => entry.feature), ['field-sizing']);
+    // Usages on lines that weren't checked can't be called fixed
+    assert.deepStrictEqual(snapshot.compare(fixed, false).fixed, []);
+  });
+
+  it('writes a sorted file that loads back', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-snapshot-'));
+    try {
+      const file = path.join(dir, '.baseline-snapshot.json');
+      assert.strictEqual(Snapshot.load(file), undefined);
+
+      Snapshot.fromResults(results()).write(file);
+      assert.deepStrictEqual(Snapshot.load(file)!.entries.map(entry => entry.file), ['src/share.js', 'src/styles.css']);
+
+      fs.writeFileSync(file, JSON.stringify({ version: 0, usages: [] }));
+      assert.throws(() => Snapshot.load(file), /not a version 1 baseline snapshot/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
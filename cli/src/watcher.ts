@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { BaselineStatus, languageForFile } from '@baseline/core';
+import { AnalysisResult, AnalyzeOptions, ProjectAnalyzer, UsageLocation } from './analyzer';
+import { ChangedLines } from './git';
+import { reportPath } from './reporter';
+
+// Wait for a burst of saves, like a formatter rewriting files, to settle
+const DEBOUNCE_MS = 100;
+
+// For platforms where fs.watch can't watch a directory tree: how often to
+// compare modification times, and how many polls between looking for new files
+const POLL_INTERVAL_MS = 1000;
+const POLLS_PER_RESCAN = 10;
+
+const STATUS_LABELS: Record<BaselineStatus, string> = {
+  baseline: 'Baseline',
+  limited: 'Limited',
+  'not-baseline': 'Not Baseline'
+};
+
+/**
+ * Re-analyzes a project whenever its files change and prints what changed
+ * since the last run. Only the files reported as changed are read and
+ * analyzed again.
+ */
+export class ProjectWatcher {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private pending = false;
+
+  // Files changed since the last run started, or everything when an event
+  // didn't say which file it was about
+  private changes = new Set<string>();
+  private rescan = false;
+
+  /**
+   * Pass `readChangedLines` when checking only changed lines, so commits
+   * and staging between runs move what is checked
+   */
+  constructor(
+    private analyzer: ProjectAnalyzer,
+    private options: AnalyzeOptions,
+    private results: AnalysisResult,
+    private readChangedLines?: () => ChangedLines | undefined
+  ) {}
+
+  start(): void {
+    const projectPath = this.results.projectPath;
+    try {
+      fs.watch(projectPath, { recursive: true }, (_event, file) => {
+        if (!file) {
+          this.rescan = true;
+          this.schedule();
+        } else {
+          // Changes to files that can't hold usages or that include and
+          // ignore leave out, like build output, don't matter
+          const changed = path.join(projectPath, file.toString());
+          if (languageForFile(changed) && this.analyzer.isIncluded(changed, this.options)) {
+            this.changes.add(changed);
+            this.schedule();
+          }
+        }
+      });
+    } catch {
+      this.poll();
+    }
+
+    console.log(chalk.dim(`\n👀 Watching ${projectPath} for changes (Ctrl+C to stop)`));
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.rerun(), DEBOUNCE_MS);
+  }
+
+  private async rerun(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+    // Events from here on belong to the next run
+    const changedFiles = this.rescan ? undefined : Array.from(this.changes);
+    this.changes.clear();
+    this.rescan = false;
+
+    try {
+      const previous = this.results;
+      const changedLines = this.readChangedLines ? this.readChangedLines() : this.options.changedLines;
+      this.results = await this.analyzer.analyze({ ...this.options, changedLines, changedFiles });
+      this.printDelta(previous, this.results);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      // Don't lose the changes that run was for
+      this.rescan = true;
+    } finally {
+      this.running = false;
+      if (this.pending) {
+        this.pending = false;
+        this.schedule();
+      }
+    }
+  }
+
+  /**
+   * Compare modification times of the analyzed files, and now and then look
+   * for new files the way the first run did
+   */
+  private poll(): void {
+    let mtimes = this.readModificationTimes();
+    let polls = 0;
+
+    setInterval(() => {
+      if (++polls % POLLS_PER_RESCAN === 0) {
+        this.rescan = true;
+        this.schedule();
+        return;
+      }
+
+      const current = this.readModificationTimes();
+      for (const [file, mtime] of current) {
+        if (mtimes.get(file) !== mtime) {
+          this.changes.add(file);
+        }
+      }
+      for (const file of mtimes.keys()) {
+        if (!current.has(file)) {
+          this.changes.add(file);
+        }
+      }
+      mtimes = current;
+
+      if (this.changes.size > 0) {
+        this.schedule();
+      }
+    }, POLL_INTERVAL_MS);
+  }
+
+  private readModificationTimes(): Map<string, number> {
+    const mtimes = new Map<string, number>();
+    for (const { file } of this.results.fileResults) {
+      try {
+        mtimes.set(file, fs.statSync(file).mtimeMs);
+      } catch {
+        // Deleted; the next comparison reports it
+      }
+    }
+    return mtimes;
+  }
+
+  private printDelta(previous: AnalysisResult, current: AnalysisResult): void {
+    // Cached files keep their result object, so anything new was re-analyzed
+    const previousResults = new Set(previous.fileResults);
+    const currentFiles = new Set(current.fileResults.map(result => result.file));
+    const changed = [
+      ...current.fileResults.filter(result => !previousResults.has(result)).map(result => result.file),
+      ...previous.fileResults.filter(result => !currentFiles.has(result.file)).map(result => result.file)
+    ];
+    if (changed.length === 0) {
+      return;
+    }
+
+    const { added, resolved } = diffFindings(previous, current);
+    const features = [...current.cssFeatures, ...current.jsFeatures, ...previous.cssFeatures, ...previous.jsFeatures];
+    const featureName = (id: string) => features.find(f => f.feature === id)?.name || id;
+    const describe = (usage: UsageLocation) =>
+      `${reportPath(current.projectPath, usage.file)}:${usage.line}:${usage.column} ${featureName(usage.feature)} (${STATUS_LABELS[usage.status]})`;
+
+    const delta = current.baselineScore - previous.baselineScore;
+    const score = `${current.baselineScore}%${delta === 0 ? '' : delta > 0 ? chalk.green(` (+${delta})`) : chalk.red(` (${delta})`)}`;
+    const files = changed.length === 1 ? reportPath(current.projectPath, changed[0]) : `${changed.length} files`;
+    const time = new Date().toLocaleTimeString();
+
+    console.log(`\n${chalk.dim(`[${time}]`)} ${files} changed · ${added.length} new, ${resolved.length} resolved · score ${score}`);
+    added.forEach(usage => console.log(chalk.red(`  + ${describe(usage)}`)));
+    resolved.forEach(usage => console.log(chalk.green(`  - ${describe(usage)}`)));
+  }
+}
+
+/**
+ * Findings, usages that are neither Baseline nor guarded, that appeared
+ * or went away between two runs. Usages are matched on file, feature and
+ * fingerprint, so code that only moved isn't reported.
+ */
+function diffFindings(previous: AnalysisResult, current: AnalysisResult): { added: UsageLocation[]; resolved: UsageLocation[] } {
+  const findings = (results: AnalysisResult) => results.fileResults
+    .flatMap(result => result.usages)
+    .filter(usage => usage.status !== 'baseline' && !usage.guarded);
+  const key = (usage: UsageLocation) => `${usage.file}\0${usage.feature}\0${usage.fingerprint}`;
+
+  const remaining = new Map<string, UsageLocation[]>();
+  for (const usage of findings(previous)) {
+    remaining.set(key(usage), [...(remaining.get(key(usage)) || []), usage]);
+  }
+
+  const added: UsageLocation[] = [];
+  for (const usage of findings(current)) {
+    const matches = remaining.get(key(usage));
+    if (matches && matches.length > 0) {
+      matches.shift();
+    } else {
+      added.push(usage);
+    }
+  }
+
+  return { added, resolved: Array.from(remaining.values()).flat() };
+}
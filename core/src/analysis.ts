@@ -0,0 +1,160 @@
+import { FeatureIndex } from './featureIndex';
+import {
+  BaselineFeature,
+  CSSUsage,
+  FeatureCheck,
+  FeatureMatch,
+  JSUsage,
+  SourceLanguage,
+  SourceUsage,
+  StatusCounts,
+  Suppression
+} from './types';
+import { detectCSS } from './detectors/cssDetector';
+import { detectJS } from './detectors/jsDetector';
+import { BrowserTargets, resolveStatus } from './targets';
+import { findSuppression, findSuppressions } from './suppressions';
+
+export const CSS_FILE_PATTERN = /\.(css|scss|sass|less)$/;
+export const JS_FILE_PATTERN = /\.(js|jsx|ts|tsx|mjs|cjs)$/;
+
+/**
+ * Work out which analyzer applies to a file, if any
+ */
+export function languageForFile(fileName: string): SourceLanguage | undefined {
+  if (CSS_FILE_PATTERN.test(fileName)) {
+    return 'css';
+  }
+  if (JS_FILE_PATTERN.test(fileName)) {
+    return 'js';
+  }
+  return undefined;
+}
+
+/**
+ * Matches found in a file, and the suppression comments that silenced others
+ */
+export interface SourceAnalysis {
+  matches: FeatureMatch[];
+  suppressions: Suppression[];
+}
+
+/**
+ * Detect usages in source text and resolve them to Baseline features.
+ * Usages with no matching feature, or covered by a suppression comment
+ * (`baseline-ignore`, `baseline-ignore-next-line`, `baseline-disable`),
+ * are dropped. With targets, each match is
+ * rated by whether the targets support it rather than by Baseline status.
+ * Matches that are not Baseline but sit behind a feature-detection check
+ * for their own feature are marked `guarded`. The file name, when known,
+ * tells the JS parser which dialect to expect.
+ */
+export function analyzeSource(
+  text: string,
+  language: SourceLanguage,
+  index: FeatureIndex,
+  targets?: BrowserTargets,
+  fileName?: string
+): FeatureMatch[] {
+  return analyzeSourceWithSuppressions(text, language, index, targets, fileName).matches;
+}
+
+/**
+ * Like `analyzeSource`, but also returns every suppression comment in the
+ * text with the findings it silenced, so suppressions can be audited
+ */
+export function analyzeSourceWithSuppressions(
+  text: string,
+  language: SourceLanguage,
+  index: FeatureIndex,
+  targets?: BrowserTargets,
+  fileName?: string
+): SourceAnalysis {
+  const matches: FeatureMatch[] = [];
+
+  // Count a feature once per line, so container-type: inline-size or
+  // navigator.clipboard.writeText() is one usage rather than two. The line
+  // is only guarded if every usage of the feature on it is.
+  const seen = new Map<string, FeatureMatch>();
+  const suppressions = findSuppressions(text);
+  const addMatch = (usage: SourceUsage, feature: BaselineFeature | undefined) => {
+    if (!feature) {
+      return;
+    }
+
+    const status = resolveStatus(feature, targets);
+    const suppression = suppressions.length > 0 ? findSuppression(suppressions, usage, feature) : undefined;
+    if (suppression) {
+      if (!suppression.suppressed.some(match => match.usage.line === usage.line && match.feature.id === feature.id)) {
+        suppression.suppressed.push({ usage, feature, status });
+      }
+      return;
+    }
+
+    const guarded = status !== 'baseline' && !!usage.guards?.some(check => checkedFeature(index, check)?.id === feature.id);
+    const key = `${usage.line}:${feature.id}`;
+    const existing = seen.get(key);
+
+    if (!existing) {
+      const match: FeatureMatch = { usage, feature, status };
+      if (guarded) {
+        match.guarded = true;
+      }
+      seen.set(key, match);
+      matches.push(match);
+    } else if (existing.guarded && !guarded) {
+      existing.usage = usage;
+      delete existing.guarded;
+    }
+  };
+
+  if (language === 'css') {
+    for (const usage of detectCSS(text)) {
+      addMatch(usage, index.getCSSFeatureForUsage(usage));
+    }
+  } else {
+    for (const usage of detectJS(text, fileName)) {
+      addMatch(usage, index.getJSFeatureForUsage(usage));
+    }
+  }
+
+  return { matches, suppressions };
+}
+
+function checkedFeature(index: FeatureIndex, check: FeatureCheck): BaselineFeature | undefined {
+  return check.language === 'css'
+    ? index.getCSSFeatureForUsage(check.usage as CSSUsage)
+    : index.getJSFeatureForUsage(check.usage as JSUsage);
+}
+
+/**
+ * Tally matches, or usages reported from them, by Baseline status, with
+ * guarded ones counted apart
+ */
+export function countByStatus(matches: Array<Pick<FeatureMatch, 'status' | 'guarded'>>): StatusCounts {
+  const counts: StatusCounts = { baseline: 0, limited: 0, nonBaseline: 0, guarded: 0 };
+
+  for (const { status, guarded } of matches) {
+    if (guarded) {
+      counts.guarded++;
+    } else if (status === 'baseline') {
+      counts.baseline++;
+    } else if (status === 'limited') {
+      counts.limited++;
+    } else {
+      counts.nonBaseline++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Percentage of detected usages that are safe to ship: Baseline, or guarded
+ * by a feature check (100 when nothing was found)
+ */
+export function calculateScore(counts: StatusCounts): number {
+  const safe = counts.baseline + counts.guarded;
+  const total = safe + counts.limited + counts.nonBaseline;
+  return total > 0 ? Math.round((safe / total) * 100) : 100;
+}
@@ -0,0 +1,234 @@
+/**
+ * Helpers that translate browser-compat-data keys (the `compat_features`
+ * listed by web-features) into the names the detectors report.
+ */
+
+// Interfaces whose members are reached through a global instance
+const GLOBAL_INSTANCES: Record<string, string> = {
+  Window: '',
+  WorkerGlobalScope: '',
+  Navigator: 'navigator',
+  Document: 'document'
+};
+
+// Syntax compat keys mapped to the names emitted by the JS detector
+const SYNTAX_API_NAMES: Record<string, string> = {
+  'javascript.operators.async_function': 'async',
+  'javascript.operators.await': 'async',
+  'javascript.statements.async_function': 'async',
+  'javascript.operators.await.top_level': 'top-level await',
+  'javascript.operators.optional_chaining': '?.',
+  'javascript.operators.nullish_coalescing': '??',
+  'javascript.operators.logical_and_assignment': '&&=',
+  'javascript.operators.logical_or_assignment': '||=',
+  'javascript.operators.nullish_coalescing_assignment': '??=',
+  'javascript.operators.import_meta': 'import.meta',
+  'javascript.classes.private_class_fields': '#field',
+  'javascript.classes.private_class_fields_in': '#field in',
+  'javascript.classes.private_class_methods': '#method()',
+  'javascript.classes.static_initialization_blocks': 'static {}',
+  'javascript.regular_expressions.lookbehind_assertion': '(?<=)',
+  'javascript.builtins.RegExp.unicodeSets': '/v'
+};
+
+// css.types.length keys that stand for a group of units
+const LENGTH_UNIT_GROUPS: Record<string, string[]> = {
+  container_query_length_units: ['cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax'],
+  viewport_percentage_units_dynamic: ['dvw', 'dvh', 'dvi', 'dvb', 'dvmin', 'dvmax'],
+  viewport_percentage_units_large: ['lvw', 'lvh', 'lvi', 'lvb', 'lvmin', 'lvmax'],
+  viewport_percentage_units_small: ['svw', 'svh', 'svi', 'svb', 'svmin', 'svmax']
+};
+
+// css.types entries that are data types rather than functions
+const CSS_DATA_TYPES = new Set(['calc-constant', 'overflow', 'transform-function', 'color', 'image', 'length', 'easing-function']);
+
+// Function names that differ from the last segment of their compat key
+const CSS_FUNCTION_NAMES: Record<string, string> = {
+  'css.types.easing-function.linear-function': 'linear'
+};
+
+// At-rule and selector sub-features the CSS detector reports on their own
+const CSS_SYNTAX_KEYS: Record<string, string> = {
+  'css.at-rules.container.style_queries_for_custom_properties': '@container style()',
+  'css.at-rules.media.range_syntax': '(range)',
+  'css.selectors.nth-child.of_syntax': ':nth-child(of)',
+  'css.selectors.nth-last-child.of_syntax': ':nth-last-child(of)'
+};
+
+/**
+ * Map a `css.properties.<name>` compat key to its property name
+ */
+export function cssPropertyForCompatKey(key: string): string | undefined {
+  const parts = key.split('.');
+  if (parts.length !== 3 || parts[0] !== 'css' || parts[1] !== 'properties') {
+    return undefined;
+  }
+  // BCD models custom properties as a pseudo-property
+  return parts[2] === 'custom-property' ? undefined : parts[2];
+}
+
+/**
+ * Map a value-level CSS compat key to the lookup keys the CSS detector
+ * reports: 'position: sticky' for `css.properties.position.sticky`,
+ * 'oklch()' for `css.types.color.oklch` and 'dvh' for the dynamic
+ * viewport units
+ */
+export function cssValueKeysForCompatKey(key: string): string[] {
+  if (Object.prototype.hasOwnProperty.call(CSS_FUNCTION_NAMES, key)) {
+    return [`${CSS_FUNCTION_NAMES[key]}()`];
+  }
+
+  const parts = key.split('.');
+  if (parts[0] !== 'css') {
+    return [];
+  }
+
+  // Keyword values, skipping contexts and sub-features like flex_context
+  if (parts[1] === 'properties') {
+    const [, , property, value] = parts;
+    if (parts.length !== 4 || property === 'custom-property' || !/^[a-z][a-z0-9-]*$/.test(value)) {
+      return [];
+    }
+    return [`${property}: ${value}`];
+  }
+
+  if (parts[1] !== 'types') {
+    return [];
+  }
+
+  const [, , type, name, subName] = parts;
+
+  if (type === 'flex' && parts.length === 3) {
+    return ['fr'];
+  }
+  if (type === 'length' && parts.length === 4) {
+    return LENGTH_UNIT_GROUPS[name] || (/^[a-z]+$/.test(name) ? [name] : []);
+  }
+  if (parts.length === 3) {
+    return CSS_DATA_TYPES.has(type) ? [] : [`${type}()`];
+  }
+  if (parts.length === 4 && ['color', 'image', 'transform-function'].includes(type)) {
+    return [`${name}()`];
+  }
+  if (parts.length === 5 && type === 'image' && name === 'gradient') {
+    return [`${subName}()`];
+  }
+
+  return [];
+}
+
+/**
+ * Map an at-rule, media feature or selector compat key to the lookup keys
+ * the CSS detector reports: '@container', '(prefers-color-scheme)', ':has'
+ */
+export function cssSyntaxKeysForCompatKey(key: string): string[] {
+  if (Object.prototype.hasOwnProperty.call(CSS_SYNTAX_KEYS, key)) {
+    return [CSS_SYNTAX_KEYS[key]];
+  }
+
+  const parts = key.split('.');
+  if (parts[0] !== 'css') {
+    return [];
+  }
+
+  const [, group, name, sub] = parts;
+  if (group === 'at-rules') {
+    if (parts.length === 3) {
+      return [`@${name}`];
+    }
+    // Media features; other sub-keys are descriptors
+    if (parts.length === 4 && name === 'media' && /^[a-z-]+$/.test(sub)) {
+      return [`(${sub})`];
+    }
+  }
+
+  // BCD does not tell pseudo-classes from pseudo-elements, so both use ':'
+  if (group === 'selectors' && parts.length === 3) {
+    return [name === 'nesting' ? '&' : `:${name}`];
+  }
+
+  return [];
+}
+
+/**
+ * Map an `api.*` / `javascript.*` compat key to the API names the JS detector reports
+ */
+export function jsNamesForCompatKey(key: string): string[] {
+  if (Object.prototype.hasOwnProperty.call(SYNTAX_API_NAMES, key)) {
+    return [SYNTAX_API_NAMES[key]];
+  }
+
+  const parts = key.split('.');
+
+  if (parts[0] === 'api') {
+    const [, iface, member] = parts;
+    if (parts.length === 2) {
+      return [iface];
+    }
+    // Skip constructors, events and sub-features like parameters
+    if (parts.length !== 3 || member === iface || member.endsWith('_event') || member.startsWith('@@')) {
+      return [];
+    }
+    if (member.endsWith('_static')) {
+      return [`${iface}.${member.slice(0, -'_static'.length)}`];
+    }
+    return [jsMemberName(iface, member)];
+  }
+
+  if (parts[0] === 'javascript' && parts[1] === 'builtins') {
+    const [, , builtin, member] = parts;
+    if (parts.length === 3) {
+      return [builtin];
+    }
+    if (parts.length !== 4 || member === builtin || member.startsWith('@@')) {
+      return [];
+    }
+    // BCD does not separate static from prototype members for builtins
+    return [`${builtin}.${member}`, `${builtin}.prototype.${member}`];
+  }
+
+  return [];
+}
+
+/**
+ * Name of an instance member as the JS detector reports it:
+ * 'Clipboard.prototype.writeText', 'navigator.share' or a bare window
+ * member such as 'structuredClone'
+ */
+export function jsMemberName(iface: string, member: string): string {
+  if (!Object.prototype.hasOwnProperty.call(GLOBAL_INSTANCES, iface)) {
+    return `${iface}.prototype.${member}`;
+  }
+  const instance = GLOBAL_INSTANCES[iface];
+  return instance ? `${instance}.${member}` : member;
+}
+
+/**
+ * Build an MDN link from the first compat key that has a predictable page
+ */
+export function mdnUrlForCompatKeys(compatKeys: string[]): string | undefined {
+  const base = 'https://developer.mozilla.org/docs/Web';
+
+  for (const key of compatKeys) {
+    const parts = key.split('.');
+    if (parts[0] === 'css' && parts.length === 3) {
+      switch (parts[1]) {
+        case 'properties':
+        case 'types':
+          return `${base}/CSS/${parts[2]}`;
+        case 'at-rules':
+          return `${base}/CSS/@${parts[2]}`;
+        case 'selectors':
+          return `${base}/CSS/:${parts[2]}`;
+      }
+    }
+    if (parts[0] === 'api' && parts.length <= 3) {
+      return `${base}/API/${parts.slice(1).join('/').replace(/_static$/, '')}`;
+    }
+    if (parts[0] === 'javascript' && parts[1] === 'builtins' && parts.length <= 4) {
+      return `${base}/JavaScript/Reference/Global_Objects/${parts.slice(2).join('/')}`;
+    }
+  }
+
+  return undefined;
+}
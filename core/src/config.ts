@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import * as ts from 'typescript';
+
+/**
+ * Project configuration, as written in `.baselinerc.json`, the `baseline`
+ * key of package.json or `baseline.config.{js,mjs,ts}`
+ */
+export interface BaselineConfig {
+  // Config files or npm presets this one builds on, applied in order
+  extends?: string | string[];
+  threshold?: number;
+  failOnNonBaseline?: boolean;
+  ignore?: string[];
+  include?: string[];
+  // Browser targets, e.g. "baseline 2022, safari >= 15.4" or "widely available"
+  targets?: string | string[];
+}
+
+/**
+ * Configuration with every default filled in and presets applied
+ */
+export interface ResolvedConfig extends Required<Omit<BaselineConfig, 'extends' | 'targets'>> {
+  targets?: string | string[];
+}
+
+/**
+ * A project's configuration with its presets merged in. `files` lists every
+ * file it was read from, the discovered one first.
+ */
+export interface LoadedConfig {
+  config: BaselineConfig;
+  files: string[];
+}
+
+export const DEFAULT_CONFIG: ResolvedConfig = {
+  threshold: 80,
+  failOnNonBaseline: false,
+  ignore: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'],
+  include: ['**/*.{css,scss,less,js,ts,jsx,tsx}']
+};
+
+// Checked in this order in each directory, before package.json
+export const CONFIG_FILE_NAMES = ['.baselinerc.json', 'baseline.config.js', 'baseline.config.mjs', 'baseline.config.ts'];
+
+type ValueCheck = (value: unknown) => string | undefined;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// What each key accepts, as an error message for values that don't fit
+const CONFIG_SCHEMA: Record<keyof BaselineConfig, ValueCheck> = {
+  extends: value => (typeof value === 'string' || isStringList(value) ? undefined : 'must be a file, a package name or an array of them'),
+  threshold: value => (typeof value === 'number' && value >= 0 && value <= 100 ? undefined : 'must be a number from 0 to 100'),
+  failOnNonBaseline: value => (typeof value === 'boolean' ? undefined : 'must be true or false'),
+  ignore: value => (isStringList(value) ? undefined : 'must be an array of glob patterns'),
+  include: value => (isStringList(value) ? undefined : 'must be an array of glob patterns'),
+  targets: value => (typeof value === 'string' || isStringList(value) ? undefined : 'must be a query string or an array of them')
+};
+
+/**
+ * The config file that applies to a directory: the nearest one found
+ * walking up from it, or undefined when there is none. A package.json
+ * only counts when it has a `baseline` key.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  for (let dir = path.resolve(startDir); ; dir = path.dirname(dir)) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const file = path.join(dir, name);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+
+    const packageJson = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJson) && readJSON(packageJson).baseline !== undefined) {
+      return packageJson;
+    }
+
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Find and load the configuration for a directory, with its presets
+ * merged in. Throws, naming the file, when a config is invalid.
+ */
+export function loadConfig(startDir: string): LoadedConfig {
+  const file = findConfigFile(startDir);
+  return file ? loadConfigFile(file) : { config: {}, files: [] };
+}
+
+/**
+ * Load one config file and the presets it extends. Keys in the file win
+ * over its presets; arrays replace rather than append.
+ */
+export function loadConfigFile(file: string, seen: string[] = []): LoadedConfig {
+  if (seen.includes(file)) {
+    throw new Error(`Circular extends: ${[...seen, file].join(' -> ')}`);
+  }
+
+  const config = validateConfig(readConfigFile(file), file);
+  const files = [file];
+  let merged: BaselineConfig = {};
+
+  const presets = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+  for (const preset of presets) {
+    const loaded = loadConfigFile(resolvePreset(preset, file), [...seen, file]);
+    merged = mergeConfig(merged, loaded.config);
+    files.push(...loaded.files);
+  }
+
+  const { extends: _extends, ...own } = config;
+  return { config: mergeConfig(merged, own), files };
+}
+
+/**
+ * Layer configs over the defaults, later ones winning. Keys left undefined,
+ * such as unset command-line flags, don't override anything.
+ */
+export function resolveConfig(...layers: BaselineConfig[]): ResolvedConfig {
+  const { extends: _extends, ...resolved } = mergeConfig(DEFAULT_CONFIG, ...layers);
+  return resolved as ResolvedConfig;
+}
+
+/**
+ * Check a parsed config against the schema, reporting every problem at
+ * once and suggesting the intended key for misspelled ones
+ */
+export function validateConfig(config: unknown, source: string): BaselineConfig {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`${source} must contain a configuration object`);
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (key === '$schema') {
+      continue;
+    }
+
+    const check = CONFIG_SCHEMA[key as keyof BaselineConfig];
+    if (!check) {
+      const suggestion = suggestKey(key);
+      problems.push(`unknown option "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+      continue;
+    }
+
+    const problem = check(value);
+    if (problem) {
+      problems.push(`"${key}" ${problem}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  const { $schema: _schema, ...validated } = config as BaselineConfig & { $schema?: unknown };
+  return validated;
+}
+
+function mergeConfig(...layers: BaselineConfig[]): BaselineConfig {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged as BaselineConfig;
+}
+
+function readConfigFile(file: string): unknown {
+  const name = path.basename(file);
+  if (name === 'package.json') {
+    return readJSON(file).baseline;
+  }
+  if (path.extname(name) === '.json') {
+    return readJSON(file);
+  }
+  return evaluateModule(file);
+}
+
+function readJSON(file: string): Record<string, unknown> {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Run a JS or TS config module and return its default export. Modules are
+ * compiled to CommonJS first, so ES module syntax and type annotations
+ * work without a loader, and are never cached, so edits are picked up.
+ */
+function evaluateModule(file: string): unknown {
+  const source = fs.readFileSync(file, 'utf-8');
+  const { outputText } = ts.transpileModule(source, {
+    // TypeScript keeps .mjs files as ES modules whatever the module option says
+    fileName: file.replace(/\.mjs$/, '.js'),
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+
+  const cjsModule = { exports: {} as Record<string, unknown> };
+  try {
+    const run = new Function('exports', 'require', 'module', '__filename', '__dirname', outputText);
+    run(cjsModule.exports, createRequire(file), cjsModule, file, path.dirname(file));
+  } catch (error) {
+    throw new Error(`Could not load ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const exported = cjsModule.exports;
+  return exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+}
+
+/**
+ * Where an `extends` entry points: a path relative to the config that
+ * names it, or an installed package (`@ourco/baseline-config`), looked up
+ * from the config's directory
+ */
+function resolvePreset(preset: string, from: string): string {
+  if (preset.startsWith('.') || path.isAbsolute(preset)) {
+    const file = path.resolve(path.dirname(from), preset);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Cannot find "${preset}", extended by ${from}`);
+    }
+    return file;
+  }
+
+  try {
+    return createRequire(from).resolve(preset);
+  } catch {
+    throw new Error(`Cannot find preset "${preset}", extended by ${from}. Is it installed?`);
+  }
+}
+
+// Closest known key within two edits, for typos like "treshold"
+function suggestKey(key: string): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  for (const known of Object.keys(CONFIG_SCHEMA)) {
+    const distance = editDistance(key.toLowerCase(), known.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+  return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,318 @@
+import postcss, { AtRule, Declaration, Node, Rule } from 'postcss';
+import selectorParser from 'postcss-selector-parser';
+import { CSSUsage, CSSUsageKind, FeatureCheck, SourceRange } from '../types';
+import { LineMap } from '../position';
+
+// Function calls inside a value: oklch(...), color-mix(...), clamp(...)
+const FUNCTION_PATTERN = /([a-zA-Z][\w-]*)\(/g;
+
+// Dimensions such as 100dvh or 2.5cqi; the lookbehind skips hex colors and identifiers
+const UNIT_PATTERN = /(?<![#\w.-])-?(?:\d+\.?\d*|\.\d+)([a-zA-Z]+)\b/g;
+
+// Bare identifiers that are not function names: sticky, subgrid, balance
+const KEYWORD_PATTERN = /(?<![\w#.-])([a-zA-Z][\w-]*)\b(?![\w(-])/g;
+
+// Parts of a value that can't use a feature: quoted strings, url() contents
+// and comments
+const OPAQUE_VALUE_PATTERN = /"(?:[^"\\]|\\[\s\S])*"?|'(?:[^'\\]|\\[\s\S])*'?|\/\*[\s\S]*?(?:\*\/|$)|(?<=\burl\()[^)]*/gi;
+
+// Media features inside a query: (prefers-color-scheme: dark), (hover)
+const MEDIA_FEATURE_PATTERN = /\(\s*([a-z][\w-]*)\s*[:)]/g;
+
+// Range comparisons: (width >= 600px), (400px <= width <= 700px)
+const MEDIA_RANGE_PATTERN = /\([^():]*[<>=][^():]*\)/g;
+
+const NTH_OF_PSEUDOS = new Set([':nth-child', ':nth-last-child']);
+
+/**
+ * Extract CSS usages from source text: properties and the keywords,
+ * functions and units in their values, at-rules, media features and
+ * selectors. Stylesheets postcss cannot parse (SCSS line comments, a rule
+ * being typed) fall back to scanning declarations only.
+ */
+export function detectCSS(text: string): CSSUsage[] {
+  const lines = new LineMap(text);
+
+  let root: postcss.Root;
+  try {
+    root = postcss.parse(text);
+  } catch {
+    return detectDeclarations(text, lines);
+  }
+
+  const usages: CSSUsage[] = [];
+  const supportsChecks = new Map<AtRule, FeatureCheck[]>();
+
+  // Checks made by every @supports the node is nested in
+  const guardsFor = (node: Node): { guards?: FeatureCheck[] } => {
+    const guards: FeatureCheck[] = [];
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent.type === 'atrule' && (parent as AtRule).name.toLowerCase() === 'supports') {
+        const atRule = parent as AtRule;
+        if (!supportsChecks.has(atRule)) {
+          const start = atRule.source?.start?.offset ?? 0;
+          const params = atRule.raws.params?.raw ?? atRule.params;
+          const paramsStart = start + 1 + atRule.name.length + (atRule.raws.afterName || '').length;
+          supportsChecks.set(atRule, supportsConditionUsages(params, paramsStart, lines).map(usage => ({ language: 'css', usage })));
+        }
+        guards.push(...supportsChecks.get(atRule)!);
+      }
+    }
+    return guards.length > 0 ? { guards } : {};
+  };
+
+  root.walk(node => {
+    if (node.type === 'decl') {
+      const extra = { declaration: rangeOf(node), rule: rangeOf(closestRule(node)), ...guardsFor(node) };
+      usages.push(...declarationUsages(node, lines).map(usage => ({ ...usage, ...extra })));
+    } else if (node.type === 'atrule') {
+      const extra = guardsFor(node);
+      usages.push(...atRuleUsages(node, lines).map(usage => ({ ...usage, ...extra })));
+    } else if (node.type === 'rule') {
+      const extra = { rule: rangeOf(node), ...guardsFor(node) };
+      usages.push(...selectorUsages(node, lines).map(usage => ({ ...usage, ...extra })));
+    }
+  });
+
+  return usages;
+}
+
+/**
+ * Regex scan used when the stylesheet does not parse
+ */
+function detectDeclarations(text: string, lines: LineMap): CSSUsage[] {
+  const usages: CSSUsage[] = [];
+
+  // Regex to match CSS property declarations
+  // Matches: property-name: value;
+  const propertyRegex = /([\w-]+)\s*:\s*([^;]+);/g;
+
+  let match;
+  while ((match = propertyRegex.exec(text)) !== null) {
+    const propertyName = match[1];
+    const rawValue = match[2];
+    const start = match.index;
+
+    usages.push(createUsage('property', propertyName, start, propertyName.length, rawValue.trim(), lines, propertyName));
+
+    // The value group always ends right before the closing semicolon
+    const valueStart = start + match[0].length - 1 - rawValue.length;
+    usages.push(...valueUsages(rawValue, valueStart, propertyName, rawValue.trim(), lines));
+  }
+
+  return usages;
+}
+
+function declarationUsages(decl: Declaration, lines: LineMap): CSSUsage[] {
+  const start = decl.source?.start?.offset;
+  if (start === undefined) {
+    return [];
+  }
+
+  const rawValue = decl.raws.value?.raw ?? decl.value;
+  const valueStart = start + decl.prop.length + (decl.raws.between || '').length;
+
+  return [
+    createUsage('property', decl.prop, start, decl.prop.length, decl.value, lines, decl.prop),
+    ...valueUsages(rawValue, valueStart, decl.prop, decl.value, lines)
+  ];
+}
+
+/**
+ * Find keywords, functions and units inside a single declaration value
+ */
+function valueUsages(rawValue: string, offset: number, property: string, value: string, lines: LineMap): CSSUsage[] {
+  const usages: CSSUsage[] = [];
+
+  // Blank out strings and the like so `content: "10dvh"` isn't a unit; same
+  // length, so match offsets still point into the original text
+  rawValue = rawValue.replace(OPAQUE_VALUE_PATTERN, opaque => ' '.repeat(opaque.length));
+
+  for (const match of rawValue.matchAll(FUNCTION_PATTERN)) {
+    usages.push(createUsage('function', `${match[1].toLowerCase()}()`, offset + match.index!, match[1].length, value, lines, property));
+  }
+
+  for (const match of rawValue.matchAll(UNIT_PATTERN)) {
+    const unitIndex = match.index! + match[0].length - match[1].length;
+    usages.push(createUsage('unit', match[1].toLowerCase(), offset + unitIndex, match[1].length, value, lines, property));
+  }
+
+  // Keywords only mean something for the property they are declared on
+  for (const match of rawValue.matchAll(KEYWORD_PATTERN)) {
+    usages.push(createUsage('value', `${property}: ${match[1].toLowerCase()}`, offset + match.index!, match[1].length, value, lines, property));
+  }
+
+  return usages.sort((a, b) => a.start - b.start);
+}
+
+function atRuleUsages(atRule: AtRule, lines: LineMap): CSSUsage[] {
+  const start = atRule.source?.start?.offset;
+  if (start === undefined) {
+    return [];
+  }
+
+  const name = atRule.name.toLowerCase();
+  const usages = [createUsage('at-rule', `@${name}`, start, name.length + 1, atRule.params, lines)];
+
+  const params = atRule.raws.params?.raw ?? atRule.params;
+  const paramsStart = start + 1 + atRule.name.length + (atRule.raws.afterName || '').length;
+
+  if (name === 'media' || name === 'import') {
+    for (const match of params.matchAll(MEDIA_FEATURE_PATTERN)) {
+      const featureIndex = match.index! + match[0].indexOf(match[1]);
+      usages.push(createUsage('media-feature', `(${match[1].toLowerCase()})`, paramsStart + featureIndex, match[1].length, atRule.params, lines));
+    }
+    for (const match of params.matchAll(MEDIA_RANGE_PATTERN)) {
+      usages.push(createUsage('media-feature', '(range)', paramsStart + match.index!, match[0].length, atRule.params, lines));
+    }
+  }
+
+  if (name === 'container') {
+    const styleQuery = /\bstyle\(/.exec(params);
+    if (styleQuery) {
+      usages.push(createUsage('at-rule', '@container style()', paramsStart + styleQuery.index, 'style'.length, atRule.params, lines));
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * What an `@supports` or `CSS.supports()` condition tests: the declarations
+ * in `(container-type: inline-size)` and the selectors in
+ * `selector(:has(a))`. Conditions using `or` or `not` promise no single
+ * feature, so they test nothing. `paramsStart` is where the condition
+ * starts in the text `lines` maps.
+ */
+export function supportsConditionUsages(params: string, paramsStart: number, lines: LineMap): CSSUsage[] {
+  if (/\b(or|not)\b/i.test(params)) {
+    return [];
+  }
+
+  const usages: CSSUsage[] = [];
+
+  const visitCondition = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (params[i] !== '(') {
+        continue;
+      }
+      const close = findClosingParen(params, i + 1);
+      if (close === -1) {
+        return;
+      }
+
+      const inner = params.slice(i + 1, close);
+      const declaration = /^(\s*)([a-zA-Z-][\w-]*)(\s*:\s*)([\s\S]*?)\s*$/.exec(inner);
+      if (/selector\s*$/i.test(params.slice(from, i))) {
+        try {
+          usages.push(...parseSelectorUsages(inner, paramsStart + i + 1, lines));
+        } catch {
+          // Nothing to learn from a half-typed selector
+        }
+      } else if (declaration) {
+        const [, before, property, between, value] = declaration;
+        const propertyStart = paramsStart + i + 1 + before.length;
+        usages.push(createUsage('property', property, propertyStart, property.length, value, lines, property));
+        usages.push(...valueUsages(value, propertyStart + property.length + between.length, property, value, lines));
+      } else {
+        // A nested condition: ((display: grid) and (gap: 1rem))
+        visitCondition(i + 1, close);
+      }
+      i = close;
+    }
+  };
+
+  visitCondition(0, params.length);
+  return usages;
+}
+
+function findClosingParen(text: string, from: number): number {
+  let depth = 1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function selectorUsages(rule: Rule, lines: LineMap): CSSUsage[] {
+  const start = rule.source?.start?.offset;
+  if (start === undefined) {
+    return [];
+  }
+
+  const selector = rule.raws.selector?.raw ?? rule.selector;
+  let usages: CSSUsage[];
+
+  try {
+    usages = parseSelectorUsages(selector, start, lines);
+  } catch {
+    // Keyframe selectors and half-typed selectors are not worth reporting
+    return [];
+  }
+
+  // A rule nested in another rule uses nesting even without an explicit &
+  if (!usages.some(usage => usage.name === '&') && rule.parent?.type === 'rule') {
+    usages.unshift(createUsage('selector', '&', start, selector.length, selector, lines));
+  }
+
+  return usages;
+}
+
+/**
+ * Pseudo-classes, pseudo-elements and nesting selectors in a selector
+ * list. Throws when the selector does not parse.
+ */
+function parseSelectorUsages(selector: string, start: number, lines: LineMap): CSSUsage[] {
+  const usages: CSSUsage[] = [];
+
+  selectorParser(selectors => {
+    selectors.walk(node => {
+      if (node.type === 'nesting') {
+        usages.push(createUsage('selector', '&', start + node.sourceIndex, 1, selector, lines));
+      } else if (node.type === 'pseudo') {
+        const pseudo = node.value.toLowerCase();
+        const name = `:${pseudo.replace(/^::?/, '')}`;
+        usages.push(createUsage('selector', name, start + node.sourceIndex, node.value.length, selector, lines));
+
+        // :nth-child(2 of .item) is a separate feature from plain :nth-child()
+        if (NTH_OF_PSEUDOS.has(name) && /\sof\s/.test(node.toString())) {
+          usages.push(createUsage('selector', `${name}(of)`, start + node.sourceIndex, node.value.length, selector, lines));
+        }
+      }
+    });
+  }).processSync(selector);
+
+  return usages;
+}
+
+function closestRule(node: Node): Rule | undefined {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.type === 'rule') {
+      return parent as Rule;
+    }
+  }
+  return undefined;
+}
+
+function rangeOf(node: Node | undefined): SourceRange | undefined {
+  const start = node?.source?.start?.offset;
+  const end = node?.source?.end?.offset;
+  return start !== undefined && end !== undefined ? { start, end } : undefined;
+}
+
+function createUsage(
+  kind: CSSUsageKind,
+  name: string,
+  start: number,
+  length: number,
+  value: string,
+  lines: LineMap,
+  property?: string
+): CSSUsage {
+  const { line, column } = lines.positionAt(start);
+  return { kind, name, property, value, start, end: start + length, line, column };
+}
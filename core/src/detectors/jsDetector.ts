@@ -0,0 +1,648 @@
+import * as ts from 'typescript';
+import { FeatureCheck, JSCallSite, JSUsage, JSUsageKind } from '../types';
+import { LineMap } from '../position';
+import { jsMemberName } from '../compatKeys';
+import { supportsConditionUsages } from './cssDetector';
+
+// Globals that are instances of a web API interface
+const GLOBAL_INSTANCE_TYPES: Record<string, string> = {
+  window: 'Window',
+  self: 'Window',
+  globalThis: 'Window',
+  navigator: 'Navigator',
+  document: 'Document',
+  crypto: 'Crypto',
+  localStorage: 'Storage',
+  sessionStorage: 'Storage',
+  performance: 'Performance',
+  location: 'Location',
+  history: 'History',
+  screen: 'Screen',
+  caches: 'CacheStorage',
+  indexedDB: 'IDBFactory',
+  customElements: 'CustomElementRegistry',
+  visualViewport: 'VisualViewport'
+};
+
+// Properties whose interface is known, so navigator.clipboard.writeText
+// resolves to Clipboard.prototype.writeText
+const MEMBER_TYPES: Record<string, string> = {
+  'Window.navigator': 'Navigator',
+  'Window.document': 'Document',
+  'Window.crypto': 'Crypto',
+  'Window.localStorage': 'Storage',
+  'Window.sessionStorage': 'Storage',
+  'Window.performance': 'Performance',
+  'Window.customElements': 'CustomElementRegistry',
+  'Window.visualViewport': 'VisualViewport',
+  'Navigator.clipboard': 'Clipboard',
+  'Navigator.serviceWorker': 'ServiceWorkerContainer',
+  'Navigator.mediaDevices': 'MediaDevices',
+  'Navigator.geolocation': 'Geolocation',
+  'Navigator.storage': 'StorageManager',
+  'Navigator.locks': 'LockManager',
+  'Navigator.permissions': 'Permissions',
+  'Navigator.wakeLock': 'WakeLock',
+  'Navigator.userActivation': 'UserActivation',
+  'Document.fonts': 'FontFaceSet',
+  'Crypto.subtle': 'SubtleCrypto'
+};
+
+// Operators that are features of their own
+const SYNTAX_OPERATORS: Partial<Record<ts.SyntaxKind, string>> = {
+  [ts.SyntaxKind.QuestionQuestionToken]: '??',
+  [ts.SyntaxKind.AmpersandAmpersandEqualsToken]: '&&=',
+  [ts.SyntaxKind.BarBarEqualsToken]: '||=',
+  [ts.SyntaxKind.QuestionQuestionEqualsToken]: '??='
+};
+
+// How far a local's initializer is followed to find its type
+const MAX_TYPE_DEPTH = 5;
+
+// Characters of surrounding code kept with each usage
+const CONTEXT_LENGTH = 20;
+
+// Names declared in a scope, with the initializer used to guess their type
+type Scope = Map<string, ts.Expression | undefined>;
+
+/**
+ * Extract JavaScript API and syntax usage from source text. The code is
+ * parsed with the TypeScript compiler, so strings, comments, property names
+ * and locals that shadow a global (a variable named `fetch`) are not reported. The file
+ * name only picks the dialect (TS, TSX, JS); without one the text is parsed
+ * as TSX.
+ */
+export function detectJS(text: string, fileName?: string): JSUsage[] {
+  const sourceFile = ts.createSourceFile(
+    fileName || 'source.tsx',
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindForFile(fileName)
+  );
+  const lines = new LineMap(text);
+  const scopes = collectDeclarations(sourceFile);
+  const usages: JSUsage[] = [];
+
+  const lookup = (identifier: ts.Identifier): { initializer?: ts.Expression } | undefined => {
+    for (let node: ts.Node | undefined = identifier.parent; node; node = node.parent) {
+      const scope = scopes.get(node);
+      if (scope?.has(identifier.text)) {
+        return { initializer: scope.get(identifier.text) };
+      }
+    }
+    return undefined;
+  };
+
+  const typeOf = (expression: ts.Expression, depth = 0): string | undefined => {
+    const node = skipOuterExpressions(expression);
+
+    if (ts.isArrayLiteralExpression(node)) {
+      return 'Array';
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      return 'String';
+    }
+    if (ts.isRegularExpressionLiteral(node)) {
+      return 'RegExp';
+    }
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && !lookup(node.expression)) {
+      return node.expression.text;
+    }
+    if (ts.isIdentifier(node)) {
+      const binding = lookup(node);
+      if (binding) {
+        return binding.initializer && depth < MAX_TYPE_DEPTH ? typeOf(binding.initializer, depth + 1) : undefined;
+      }
+      return ownValue(GLOBAL_INSTANCE_TYPES, node.text);
+    }
+    if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.name) && depth < MAX_TYPE_DEPTH) {
+      const owner = typeOf(node.expression, depth + 1);
+      return owner ? ownValue(MEMBER_TYPES, `${owner}.${node.name.text}`) : undefined;
+    }
+    return undefined;
+  };
+
+  const makeUsage = (kind: JSUsageKind, name: string, start: number, end: number, guards: FeatureCheck[] = []): JSUsage => {
+    const { line, column } = lines.positionAt(start);
+    const contextStart = Math.max(0, start - CONTEXT_LENGTH);
+    const contextEnd = Math.min(text.length, end + CONTEXT_LENGTH);
+
+    const usage: JSUsage = { kind, name, start, end, line, column, context: text.substring(contextStart, contextEnd).trim() };
+    if (guards.length > 0) {
+      usage.guards = guards;
+    }
+    return usage;
+  };
+
+  const addUsage = (kind: JSUsageKind, name: string, start: number, end: number, guards?: FeatureCheck[]) => {
+    usages.push(makeUsage(kind, name, start, end, guards));
+  };
+
+  // The API an identifier or property access refers to. A member of a
+  // receiver of unknown type only counts when it is called.
+  const referenceOf = (node: ts.Node, called: boolean): { kind: JSUsageKind; name: string; token: ts.Node } | undefined => {
+    if (ts.isIdentifier(node)) {
+      return isReference(node) && !lookup(node) ? { kind: 'global', name: node.text, token: node } : undefined;
+    }
+    if (!ts.isPropertyAccessExpression(node) || !ts.isIdentifier(node.name)) {
+      return undefined;
+    }
+
+    const member = node.name.text;
+    const receiver = skipOuterExpressions(node.expression);
+    const receiverType = typeOf(receiver);
+
+    if (receiverType) {
+      return { kind: 'member', name: jsMemberName(receiverType, member), token: node.name };
+    }
+    if (ts.isIdentifier(receiver) && /^[A-Z]/.test(receiver.text) && !lookup(receiver)) {
+      // Static members of a global constructor or namespace: Promise.allSettled, Intl.Segmenter
+      return { kind: 'member', name: `${receiver.text}.${member}`, token: node.name };
+    }
+    return called ? { kind: 'method', name: member, token: node.name } : undefined;
+  };
+
+  // Expressions a guard tests for existence; their own usage is the check
+  const checkedNodes = new Set<ts.Node>();
+
+  const checkOf = (expression: ts.Expression): FeatureCheck[] => {
+    const node = skipOuterExpressions(expression);
+    const reference = referenceOf(node, true);
+    if (!reference) {
+      return [];
+    }
+    checkedNodes.add(node);
+    return [{ language: 'js', usage: makeUsage(reference.kind, reference.name, reference.token.getStart(sourceFile), reference.token.end) }];
+  };
+
+  // 'share' in navigator, 'at' in Array.prototype, 'withResolvers' in Promise
+  const inCheck = (node: ts.BinaryExpression): FeatureCheck[] => {
+    const member = skipOuterExpressions(node.left);
+    const receiver = skipOuterExpressions(node.right);
+    if (!ts.isStringLiteralLike(member)) {
+      return [];
+    }
+
+    let name: string | undefined;
+    const receiverType = typeOf(receiver);
+    if (receiverType) {
+      name = jsMemberName(receiverType, member.text);
+    } else if (ts.isIdentifier(receiver) && /^[A-Z]/.test(receiver.text) && !lookup(receiver)) {
+      name = `${receiver.text}.${member.text}`;
+    } else if (
+      ts.isPropertyAccessExpression(receiver) &&
+      receiver.name.text === 'prototype' &&
+      ts.isIdentifier(receiver.expression) &&
+      !lookup(receiver.expression)
+    ) {
+      name = jsMemberName(receiver.expression.text, member.text);
+    }
+
+    return name ? [{ language: 'js', usage: makeUsage('member', name, member.getStart(sourceFile), member.end) }] : [];
+  };
+
+  // CSS.supports('(container-type: inline-size)') or CSS.supports('container-type', 'inline-size')
+  const supportsCheck = (call: ts.CallExpression): FeatureCheck[] => {
+    const callee = skipOuterExpressions(call.expression);
+    if (
+      !ts.isPropertyAccessExpression(callee) ||
+      callee.name.text !== 'supports' ||
+      !ts.isIdentifier(callee.expression) ||
+      callee.expression.text !== 'CSS' ||
+      lookup(callee.expression)
+    ) {
+      return [];
+    }
+
+    const args = call.arguments.map(skipOuterExpressions).filter(ts.isStringLiteralLike);
+    if (args.length !== call.arguments.length || args.length < 1 || args.length > 2) {
+      return [];
+    }
+
+    // A bare declaration is read as if it were in parentheses. Offsets are
+    // then approximate; checks only need names.
+    const bare = args.length === 2 || !/^\s*(\(|selector\()/i.test(args[0].text);
+    const condition = args.length === 2 ? `(${args[0].text}: ${args[1].text})` : bare ? `(${args[0].text})` : args[0].text;
+    const conditionStart = args[0].getStart(sourceFile) + (bare ? 0 : 1);
+    return supportsConditionUsages(condition, conditionStart, lines).map(usage => ({ language: 'css', usage }));
+  };
+
+  // What is known to exist once a condition comes out as `outcome`
+  const conditionChecks = (expression: ts.Expression, outcome: boolean): FeatureCheck[] => {
+    const node = skipOuterExpressions(expression);
+
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+      return conditionChecks(node.operand, !outcome);
+    }
+    if (ts.isBinaryExpression(node)) {
+      switch (node.operatorToken.kind) {
+        case ts.SyntaxKind.AmpersandAmpersandToken:
+          return outcome ? [...conditionChecks(node.left, true), ...conditionChecks(node.right, true)] : [];
+        case ts.SyntaxKind.BarBarToken:
+          return outcome ? [] : [...conditionChecks(node.left, false), ...conditionChecks(node.right, false)];
+        case ts.SyntaxKind.InKeyword:
+          return outcome ? inCheck(node) : [];
+      }
+      const test = existenceTest(node);
+      return test && test.exists === outcome ? checkOf(test.operand) : [];
+    }
+    if (!outcome) {
+      return [];
+    }
+    return ts.isCallExpression(node) ? supportsCheck(node) : checkOf(node);
+  };
+
+  // Optional chaining checks what comes before each `?.`, so
+  // navigator.clipboard?.writeText() only runs where clipboard exists
+  const optionalChecks = (node: ts.Node): FeatureCheck[] => {
+    const checks: FeatureCheck[] = [];
+    for (
+      let current = node;
+      ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current) || ts.isCallExpression(current);
+      current = current.expression
+    ) {
+      if (current.questionDotToken) {
+        checks.push(...checkOf(current.expression));
+      }
+    }
+
+    const parent = node.parent;
+    if (
+      (ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent) || ts.isCallExpression(parent)) &&
+      parent.questionDotToken &&
+      parent.expression === node
+    ) {
+      checkedNodes.add(node);
+    }
+    return checks;
+  };
+
+  const visit = (node: ts.Node, guards: FeatureCheck[]): void => {
+    if (isTypeOnly(node)) {
+      return;
+    }
+
+    if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+      const reference = referenceOf(node, ts.isCallExpression(node.parent) && node.parent.expression === node);
+      if (reference) {
+        const start = reference.token.getStart(sourceFile);
+        const usageGuards = [...guards, ...optionalChecks(node)];
+        if (checkedNodes.has(node)) {
+          usageGuards.push({ language: 'js', usage: makeUsage(reference.kind, reference.name, start, reference.token.end) });
+        }
+        addUsage(reference.kind, reference.name, start, reference.token.end, usageGuards);
+      }
+    }
+
+    visitSyntax(node);
+
+    if (ts.isIfStatement(node)) {
+      const whenTrue = conditionChecks(node.expression, true);
+      const whenFalse = conditionChecks(node.expression, false);
+      visit(node.expression, guards);
+      visit(node.thenStatement, [...guards, ...whenTrue]);
+      if (node.elseStatement) {
+        visit(node.elseStatement, [...guards, ...whenFalse]);
+      }
+    } else if (ts.isConditionalExpression(node)) {
+      const whenTrue = conditionChecks(node.condition, true);
+      const whenFalse = conditionChecks(node.condition, false);
+      visit(node.condition, guards);
+      visit(node.whenTrue, [...guards, ...whenTrue]);
+      visit(node.whenFalse, [...guards, ...whenFalse]);
+    } else if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken || node.operatorToken.kind === ts.SyntaxKind.BarBarToken)
+    ) {
+      // 'share' in navigator && navigator.share(data)
+      const checks = conditionChecks(node.left, node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken);
+      visit(node.left, guards);
+      visit(node.right, [...guards, ...checks]);
+    } else if (ts.isSourceFile(node) || ts.isBlock(node) || ts.isModuleBlock(node)) {
+      // if (!('share' in navigator)) return; guards the rest of the block
+      let blockGuards = guards;
+      for (const statement of node.statements) {
+        visit(statement, blockGuards);
+        if (ts.isIfStatement(statement) && !statement.elseStatement && alwaysExits(statement.thenStatement)) {
+          blockGuards = [...blockGuards, ...conditionChecks(statement.expression, false)];
+        }
+      }
+    } else {
+      ts.forEachChild(node, child => visit(child, guards));
+    }
+  };
+
+  // Language features, reported on the token that needs them
+  const visitSyntax = (node: ts.Node): void => {
+    const addToken = (name: string, token: ts.Node) => addUsage('syntax', name, token.getStart(sourceFile), token.end);
+
+    if (ts.isAwaitExpression(node)) {
+      const start = node.getStart(sourceFile);
+      addUsage('syntax', 'async', start, start + 'await'.length);
+      if (!ts.findAncestor(node, ts.isFunctionLike)) {
+        addUsage('syntax', 'top-level await', start, start + 'await'.length);
+      }
+    } else if (ts.isFunctionLike(node) && ts.canHaveModifiers(node)) {
+      const asyncModifier = ts.getModifiers(node)?.find(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword);
+      if (asyncModifier) {
+        addToken('async', asyncModifier);
+      }
+    }
+
+    if (
+      (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) &&
+      node.questionDotToken
+    ) {
+      addToken('?.', node.questionDotToken);
+    } else if (ts.isBinaryExpression(node)) {
+      const operator = SYNTAX_OPERATORS[node.operatorToken.kind];
+      if (operator) {
+        addToken(operator, node.operatorToken);
+      } else if (node.operatorToken.kind === ts.SyntaxKind.InKeyword && ts.isPrivateIdentifier(node.left)) {
+        addToken('#field in', node.left);
+      }
+    } else if (ts.isMetaProperty(node) && node.keywordToken === ts.SyntaxKind.ImportKeyword) {
+      addToken('import.meta', node);
+    } else if (ts.isPropertyDeclaration(node) && ts.isPrivateIdentifier(node.name)) {
+      addToken('#field', node.name);
+    } else if (
+      (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) &&
+      ts.isPrivateIdentifier(node.name)
+    ) {
+      addToken('#method()', node.name);
+    } else if (ts.isClassStaticBlockDeclaration(node)) {
+      const start = node.getStart(sourceFile);
+      addUsage('syntax', 'static {}', start, start + 'static'.length);
+    } else if (ts.isRegularExpressionLiteral(node)) {
+      const pattern = node.text.slice(1, node.text.lastIndexOf('/'));
+      const flags = node.text.slice(node.text.lastIndexOf('/') + 1);
+      if (/\(\?<[=!]/.test(pattern)) {
+        addToken('(?<=)', node);
+      }
+      if (flags.includes('v')) {
+        addToken('/v', node);
+      }
+    }
+  };
+
+  visit(sourceFile, []);
+
+  // Members are visited before their receiver, so restore source order
+  return usages.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the call whose callee contains the offset, e.g. the usage of
+ * `startViewTransition` in `document.startViewTransition(update)`, so quick
+ * fixes can guard or rewrite it
+ */
+export function findCallSite(text: string, offset: number, fileName?: string): JSCallSite | undefined {
+  const sourceFile = ts.createSourceFile(
+    fileName || 'source.tsx',
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindForFile(fileName)
+  );
+
+  let node: ts.Node = sourceFile;
+  for (let child = childAt(node, offset, sourceFile); child; child = childAt(node, offset, sourceFile)) {
+    node = child;
+  }
+
+  // Climb the callee, e.g. from `writeText` to `navigator.clipboard.writeText`
+  while (node.parent) {
+    const parent = node.parent;
+    if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node) {
+      return toCallSite(parent, sourceFile);
+    }
+    if (
+      !ts.isPropertyAccessExpression(parent) &&
+      !ts.isParenthesizedExpression(parent) &&
+      !ts.isNonNullExpression(parent) &&
+      !(ts.isElementAccessExpression(parent) && parent.expression === node)
+    ) {
+      return undefined;
+    }
+    node = parent;
+  }
+  return undefined;
+}
+
+function childAt(node: ts.Node, offset: number, sourceFile: ts.SourceFile): ts.Node | undefined {
+  return ts.forEachChild(node, child => (child.getStart(sourceFile) <= offset && offset < child.end ? child : undefined));
+}
+
+function toCallSite(call: ts.CallExpression | ts.NewExpression, sourceFile: ts.SourceFile): JSCallSite {
+  const callee = skipOuterExpressions(call.expression);
+  const site: JSCallSite = {
+    callee: callee.getText(sourceFile),
+    args: (call.arguments || []).map(arg => arg.getText(sourceFile)),
+    isNew: ts.isNewExpression(call),
+    range: { start: call.getStart(sourceFile), end: call.end }
+  };
+
+  if (ts.isPropertyAccessExpression(callee)) {
+    site.receiver = callee.expression.getText(sourceFile);
+    site.member = callee.name.text;
+  }
+
+  // Only a statement of its own can be wrapped in a guard; stop at the
+  // function the call is in
+  const statement = ts.findAncestor(call, node => ts.isFunctionLike(node) ? 'quit' : ts.isExpressionStatement(node));
+  if (statement) {
+    site.statement = { start: statement.getStart(sourceFile), end: statement.end };
+  }
+
+  return site;
+}
+
+function scriptKindForFile(fileName?: string): ts.ScriptKind {
+  if (!fileName) {
+    return ts.ScriptKind.TSX;
+  }
+  if (/\.tsx$/.test(fileName)) {
+    return ts.ScriptKind.TSX;
+  }
+  if (/\.[cm]?ts$/.test(fileName)) {
+    return ts.ScriptKind.TS;
+  }
+  if (/\.jsx$/.test(fileName)) {
+    return ts.ScriptKind.JSX;
+  }
+  return ts.ScriptKind.JS;
+}
+
+/**
+ * Record every declared name against the node whose scope it lives in:
+ * `var` and parameters in their function, `let`, `const`, classes and
+ * functions in their block, imports in the file.
+ */
+function collectDeclarations(sourceFile: ts.SourceFile): Map<ts.Node, Scope> {
+  const scopes = new Map<ts.Node, Scope>();
+
+  const declare = (scopeNode: ts.Node, name: ts.BindingName | ts.ModuleName, initializer?: ts.Expression) => {
+    if (ts.isStringLiteral(name)) {
+      return;
+    }
+    if (ts.isIdentifier(name)) {
+      const scope = scopes.get(scopeNode) ?? new Map();
+      scope.set(name.text, initializer);
+      scopes.set(scopeNode, scope);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) {
+        declare(scopeNode, element.name);
+      }
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node)) {
+      const list = node.parent;
+      if (ts.isVariableDeclarationList(list)) {
+        const blockScoped = (list.flags & ts.NodeFlags.BlockScoped) !== 0;
+        declare(blockScoped ? enclosingScope(list) : enclosingFunction(list), node.name, node.initializer);
+      } else {
+        // catch (error)
+        declare(list, node.name);
+      }
+    } else if (ts.isParameter(node)) {
+      declare(node.parent, node.name);
+    } else if (
+      ts.isFunctionDeclaration(node) ||
+      ts.isClassDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)
+    ) {
+      if (node.name) {
+        declare(enclosingScope(node.parent), node.name);
+      }
+    } else if ((ts.isFunctionExpression(node) || ts.isClassExpression(node)) && node.name) {
+      declare(node, node.name);
+    } else if (ts.isImportClause(node) && node.name) {
+      declare(sourceFile, node.name);
+    } else if (ts.isNamespaceImport(node) || ts.isImportSpecifier(node) || ts.isImportEqualsDeclaration(node)) {
+      declare(sourceFile, node.name);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return scopes;
+}
+
+function isScopeBoundary(node: ts.Node): boolean {
+  return ts.isSourceFile(node) ||
+    ts.isBlock(node) ||
+    ts.isModuleBlock(node) ||
+    ts.isCaseBlock(node) ||
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isCatchClause(node) ||
+    ts.isClassLike(node) ||
+    ts.isFunctionLike(node);
+}
+
+function enclosingScope(node: ts.Node): ts.Node {
+  while (!isScopeBoundary(node) && node.parent) {
+    node = node.parent;
+  }
+  return node;
+}
+
+function enclosingFunction(node: ts.Node): ts.Node {
+  while (!ts.isSourceFile(node) && !ts.isFunctionLike(node) && node.parent) {
+    node = node.parent;
+  }
+  return node;
+}
+
+/**
+ * Whether an identifier refers to a binding, as opposed to naming a
+ * property, a label or the declaration it belongs to
+ */
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent as ts.Node & { name?: ts.Node; propertyName?: ts.Node; label?: ts.Node };
+
+  // { fetch } reads the binding called fetch
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return true;
+  }
+
+  return parent.name !== node && parent.propertyName !== node && parent.label !== node;
+}
+
+/**
+ * Type annotations and declarations never run, so nothing in them is usage;
+ * `class Queue extends Map` is the exception
+ */
+function isTypeOnly(node: ts.Node): boolean {
+  if (ts.isExpressionWithTypeArguments(node)) {
+    const clause = node.parent;
+    return !(ts.isHeritageClause(clause) && clause.token === ts.SyntaxKind.ExtendsKeyword && ts.isClassLike(clause.parent));
+  }
+  return ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node);
+}
+
+/**
+ * Read `typeof X === 'function'`, `typeof X !== 'undefined'` and
+ * `X != null` as a test of whether X exists
+ */
+function existenceTest(node: ts.BinaryExpression): { operand: ts.Expression; exists: boolean } | undefined {
+  const operator = node.operatorToken.kind;
+  const strict = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.ExclamationEqualsEqualsToken;
+  const equals = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsToken;
+  if (!equals && operator !== ts.SyntaxKind.ExclamationEqualsEqualsToken && operator !== ts.SyntaxKind.ExclamationEqualsToken) {
+    return undefined;
+  }
+
+  for (const [side, other] of [[node.left, node.right], [node.right, node.left]]) {
+    const operand = skipOuterExpressions(side);
+    const compared = skipOuterExpressions(other);
+
+    if (ts.isTypeOfExpression(operand) && ts.isStringLiteralLike(compared)) {
+      return { operand: operand.expression, exists: equals !== (compared.text === 'undefined') };
+    }
+    // X !== null says nothing about X being undefined
+    const isUndefined = ts.isIdentifier(compared) && compared.text === 'undefined';
+    if (isUndefined || (compared.kind === ts.SyntaxKind.NullKeyword && !strict)) {
+      return { operand, exists: !equals };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a statement never falls through: `return;` or `{ warn(); return; }`
+ */
+function alwaysExits(statement: ts.Statement): boolean {
+  const last = ts.isBlock(statement) ? statement.statements[statement.statements.length - 1] : statement;
+  return !!last && (
+    ts.isReturnStatement(last) ||
+    ts.isThrowStatement(last) ||
+    ts.isBreakStatement(last) ||
+    ts.isContinueStatement(last)
+  );
+}
+
+function skipOuterExpressions(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function ownValue(table: Record<string, string>, key: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineFeature, BaselineStatus, CSSFeature, CSSUsage, JSFeature, JSUsage } from './types';
+import {
+  cssPropertyForCompatKey,
+  cssSyntaxKeysForCompatKey,
+  cssValueKeysForCompatKey,
+  jsNamesForCompatKey,
+  mdnUrlForCompatKeys
+} from './compatKeys';
+
+// Shape of a single entry in web-features' index.json
+export interface WebFeatureData {
+  name: string;
+  description: string;
+  spec?: string | string[];
+  caniuse?: string | string[];
+  status: {
+    baseline: 'high' | 'low' | false;
+    baseline_low_date?: string;
+    baseline_high_date?: string;
+    support: {
+      chrome?: string;
+      edge?: string;
+      firefox?: string;
+      safari?: string;
+    };
+  };
+  compat_features?: string[];
+}
+
+export type WebFeaturesData = Record<string, WebFeatureData>;
+
+/**
+ * Serializable form of an index, as stored in caches
+ */
+export interface FeatureTables {
+  css: Record<string, CSSFeature>;
+  js: Record<string, JSFeature>;
+}
+
+/**
+ * Version of the bundled web-features package
+ */
+export function getWebFeaturesVersion(): string {
+  // package.json is not in the package's exports map, so locate it on disk
+  const dataFile = require.resolve('web-features/index.json');
+  const packageJson = JSON.parse(fs.readFileSync(path.join(path.dirname(dataFile), 'package.json'), 'utf-8'));
+  return packageJson.version;
+}
+
+/**
+ * Read the bundled web-features data and its version.
+ *
+ * web-features ships as an ES module, so CommonJS consumers read the JSON
+ * data file it exports alongside index.js instead of importing the package.
+ */
+export function loadWebFeatures(): { version: string; features: WebFeaturesData } {
+  const dataFile = require.resolve('web-features/index.json');
+  const features = JSON.parse(fs.readFileSync(dataFile, 'utf-8'));
+
+  return { version: getWebFeaturesVersion(), features };
+}
+
+// Builtins whose prototype methods can be recognized from the method name
+// alone, e.g. items.at(-1) when the type of items is unknown
+const BUILTIN_PROTOTYPES = new Set([
+  'Array', 'TypedArray', 'String', 'Object', 'Function', 'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet',
+  'WeakRef', 'RegExp', 'Number', 'BigInt', 'Symbol', 'Date', 'Iterator', 'ArrayBuffer', 'Error'
+]);
+
+/**
+ * Lookup tables from CSS property and JS API names to Baseline features
+ */
+export class FeatureIndex {
+  private cssFeatures: Map<string, CSSFeature> = new Map();
+  private jsFeatures: Map<string, JSFeature> = new Map();
+
+  // Builtin method name to its feature, or null when several features share the name
+  private builtinMethods: Map<string, JSFeature | null> | undefined;
+
+  private constructor(public readonly version: string) {}
+
+  /**
+   * Build an index from web-features data (the bundled package by default)
+   */
+  static fromWebFeatures(data?: WebFeaturesData, version?: string): FeatureIndex {
+    if (!data) {
+      const bundled = loadWebFeatures();
+      data = bundled.features;
+      version = bundled.version;
+    }
+
+    const index = new FeatureIndex(version || 'unknown');
+
+    for (const [featureId, feature] of Object.entries(data)) {
+      const compatKeys = feature.compat_features || [];
+      const properties = new Set<string>();
+      const values = new Set<string>();
+      const apis = new Set<string>();
+
+      for (const key of compatKeys) {
+        const property = cssPropertyForCompatKey(key);
+        if (property) {
+          properties.add(property);
+        }
+        cssValueKeysForCompatKey(key).forEach(value => values.add(value));
+        cssSyntaxKeysForCompatKey(key).forEach(value => values.add(value));
+        jsNamesForCompatKey(key).forEach(api => apis.add(api));
+      }
+
+      const base: BaselineFeature = {
+        id: featureId,
+        name: feature.name || featureId,
+        status: FeatureIndex.determineBaselineStatus(feature),
+        since: feature.status?.baseline_high_date || feature.status?.baseline_low_date,
+        lowDate: feature.status?.baseline_low_date,
+        highDate: feature.status?.baseline_high_date,
+        description: feature.description || '',
+        mdn_url: mdnUrlForCompatKeys(compatKeys),
+        spec_url: Array.isArray(feature.spec) ? feature.spec[0] : feature.spec,
+        browserSupport: FeatureIndex.extractBrowserSupport(feature)
+      };
+
+      // Index CSS features by each property and other lookup key
+      if (properties.size > 0 || values.size > 0) {
+        const cssFeature: CSSFeature = { ...base, properties: Array.from(properties), values: Array.from(values) };
+        [...cssFeature.properties, ...values].forEach(key => {
+          if (!index.cssFeatures.has(key)) {
+            index.cssFeatures.set(key, cssFeature);
+          }
+        });
+      }
+
+      // Index JS features by every API name they cover
+      if (apis.size > 0) {
+        const names = Array.from(apis);
+        const jsFeature: JSFeature = { ...base, api: names[0], methods: names.slice(1) };
+        names.forEach(api => {
+          if (!index.jsFeatures.has(api)) {
+            index.jsFeatures.set(api, jsFeature);
+          }
+        });
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Build an index from an explicit feature set, e.g. a test fixture
+   */
+  static fromFeatures(cssFeatures: CSSFeature[], jsFeatures: JSFeature[], version = 'fixture'): FeatureIndex {
+    const index = new FeatureIndex(version);
+
+    // Index CSS features by property name and other lookup keys
+    cssFeatures.forEach(feature => {
+      [...feature.properties, ...(feature.values || [])].forEach(key => {
+        index.cssFeatures.set(key, feature);
+      });
+    });
+
+    // Index JS features by API name and each of its methods
+    jsFeatures.forEach(feature => {
+      index.jsFeatures.set(feature.api, feature);
+      if (feature.methods) {
+        feature.methods.forEach(method => {
+          index.jsFeatures.set(method, feature);
+        });
+      }
+    });
+
+    return index;
+  }
+
+  /**
+   * Restore an index previously serialized with toTables()
+   */
+  static fromTables(tables: FeatureTables, version: string): FeatureIndex {
+    const index = new FeatureIndex(version);
+    index.cssFeatures = new Map(Object.entries(tables.css));
+    index.jsFeatures = new Map(Object.entries(tables.js));
+    return index;
+  }
+
+  static empty(): FeatureIndex {
+    return new FeatureIndex('none');
+  }
+
+  toTables(): FeatureTables {
+    return {
+      css: Object.fromEntries(this.cssFeatures),
+      js: Object.fromEntries(this.jsFeatures)
+    };
+  }
+
+  /**
+   * Get CSS feature by property name or other lookup key
+   * ('position: sticky', 'oklch()', 'dvh', '@container', ':has')
+   */
+  getCSSFeature(key: string): CSSFeature | undefined {
+    return this.cssFeatures.get(key);
+  }
+
+  /**
+   * Resolve a detected CSS usage. Some functions are only tracked for the
+   * property they appear in (grid-template-columns: repeat()), so those
+   * fall back to the property's keyword key.
+   */
+  getCSSFeatureForUsage(usage: CSSUsage): CSSFeature | undefined {
+    const feature = this.cssFeatures.get(usage.name);
+    if (feature || usage.kind !== 'function') {
+      return feature;
+    }
+    return usage.property ? this.cssFeatures.get(`${usage.property}: ${usage.name.slice(0, -2)}`) : undefined;
+  }
+
+  /**
+   * Get JS feature by API name
+   */
+  getJSFeature(api: string): JSFeature | undefined {
+    return this.jsFeatures.get(api);
+  }
+
+  /**
+   * Resolve a detected JS usage. A method called on a receiver of unknown
+   * type only resolves when the name belongs to a single builtin feature:
+   * .at() is Array.prototype.at, while .get() could be a Map or a WeakMap.
+   */
+  getJSFeatureForUsage(usage: JSUsage): JSFeature | undefined {
+    if (usage.kind !== 'method') {
+      return this.jsFeatures.get(usage.name);
+    }
+    return this.getBuiltinMethods().get(usage.name) || undefined;
+  }
+
+  private getBuiltinMethods(): Map<string, JSFeature | null> {
+    if (!this.builtinMethods) {
+      this.builtinMethods = new Map();
+      for (const [api, feature] of this.jsFeatures) {
+        const [builtin, prototype, method] = api.split('.');
+        if (prototype !== 'prototype' || !method || !BUILTIN_PROTOTYPES.has(builtin)) {
+          continue;
+        }
+        const existing = this.builtinMethods.get(method);
+        this.builtinMethods.set(method, existing === undefined || existing?.id === feature.id ? feature : null);
+      }
+    }
+    return this.builtinMethods;
+  }
+
+  /**
+   * Get indexed name counts
+   */
+  getStats(): { css: number; js: number; baseline: number } {
+    let baselineCount = 0;
+
+    this.cssFeatures.forEach(feature => {
+      if (feature.status === 'baseline') {
+        baselineCount++;
+      }
+    });
+
+    this.jsFeatures.forEach(feature => {
+      if (feature.status === 'baseline') {
+        baselineCount++;
+      }
+    });
+
+    return {
+      css: this.cssFeatures.size,
+      js: this.jsFeatures.size,
+      baseline: baselineCount
+    };
+  }
+
+  /**
+   * Determine Baseline status from feature data
+   */
+  private static determineBaselineStatus(feature: WebFeatureData): BaselineStatus {
+    switch (feature.status?.baseline) {
+      case 'high':
+        return 'baseline';
+      case 'low':
+        return 'limited';
+      default:
+        return 'not-baseline';
+    }
+  }
+
+  /**
+   * Extract browser support information
+   */
+  private static extractBrowserSupport(feature: WebFeatureData): BaselineFeature['browserSupport'] {
+    const support: BaselineFeature['browserSupport'] = {};
+    const versions = feature.status?.support;
+
+    if (versions) {
+      support.chrome = versions.chrome;
+      support.edge = versions.edge;
+      support.firefox = versions.firefox;
+      support.safari = versions.safari;
+    }
+
+    return support;
+  }
+}
@@ -0,0 +1,37 @@
+export * from './types';
+export { FeatureIndex, FeatureTables, WebFeatureData, WebFeaturesData, loadWebFeatures, getWebFeaturesVersion } from './featureIndex';
+export {
+  cssPropertyForCompatKey,
+  cssSyntaxKeysForCompatKey,
+  cssValueKeysForCompatKey,
+  jsMemberName,
+  jsNamesForCompatKey,
+  mdnUrlForCompatKeys
+} from './compatKeys';
+export {
+  BaselineConfig,
+  CONFIG_FILE_NAMES,
+  DEFAULT_CONFIG,
+  LoadedConfig,
+  ResolvedConfig,
+  findConfigFile,
+  loadConfig,
+  loadConfigFile,
+  resolveConfig,
+  validateConfig
+} from './config';
+export { detectCSS } from './detectors/cssDetector';
+export { detectJS, findCallSite } from './detectors/jsDetector';
+export { LineMap } from './position';
+export { findSuppression, findSuppressions } from './suppressions';
+export { BrowserTargets, TargetBrowser, TargetSupport, parseTargets, resolveStatus } from './targets';
+export {
+  CSS_FILE_PATTERN,
+  JS_FILE_PATTERN,
+  languageForFile,
+  SourceAnalysis,
+  analyzeSource,
+  analyzeSourceWithSuppressions,
+  countByStatus,
+  calculateScore
+} from './analysis';
@@ -0,0 +1,59 @@
+import { BaselineFeature, CSSUsage, SourceUsage, Suppression, SuppressionKind } from './types';
+import { LineMap } from './position';
+
+// `/* baseline-ignore */`, `// baseline-ignore-next-line container-type`,
+// `/* baseline-disable navigator.share -- desktop has a copy button */`
+const SUPPRESSION_COMMENT_PATTERN = /(?:\/\*|\/\/)\s*baseline-(ignore-next-line|ignore|disable)(?![\w-])([^\n]*?)(?:\*\/|$)/gm;
+
+/**
+ * Every suppression comment in the text, in source order
+ */
+export function findSuppressions(text: string): Suppression[] {
+  const lines = new LineMap(text);
+  const suppressions: Suppression[] = [];
+
+  for (const match of text.matchAll(SUPPRESSION_COMMENT_PATTERN)) {
+    const { line } = lines.positionAt(match.index!);
+    const [names, ...reason] = match[2].split('--');
+    const suppression: Suppression = {
+      kind: match[1] as SuppressionKind,
+      line,
+      names: names.split(/[\s,]+/).filter(Boolean),
+      suppressed: []
+    };
+
+    if (reason.join('--').trim()) {
+      suppression.reason = reason.join('--').trim();
+    }
+    suppressions.push(suppression);
+  }
+
+  return suppressions;
+}
+
+/**
+ * The suppression covering a usage, if any
+ */
+export function findSuppression(
+  suppressions: Suppression[],
+  usage: SourceUsage,
+  feature: BaselineFeature
+): Suppression | undefined {
+  return suppressions.find(suppression => covers(suppression, usage.line) && (
+    suppression.names.length === 0 ||
+    suppression.names.includes(feature.id) ||
+    suppression.names.includes(usage.name) ||
+    suppression.names.includes((usage as CSSUsage).property || '')
+  ));
+}
+
+function covers(suppression: Suppression, line: number): boolean {
+  switch (suppression.kind) {
+    case 'ignore':
+      return suppression.line === line;
+    case 'ignore-next-line':
+      return suppression.line + 1 === line;
+    case 'disable':
+      return true;
+  }
+}
@@ -0,0 +1,197 @@
+import browserslist from 'browserslist';
+import { BaselineFeature, BaselineStatus, BrowserSupport } from './types';
+
+export type TargetBrowser = keyof BrowserSupport;
+
+/**
+ * Outcome of checking one feature against the configured targets
+ */
+export interface TargetSupport {
+  supported: boolean;
+  // Targets the feature is available in, e.g. 'chrome 109' or 'Baseline 2022'
+  satisfied: string[];
+  // Targets the feature is missing from, e.g. 'safari 15.4 (needs 16)'
+  missing: string[];
+}
+
+// browserslist families folded into the four browsers web-features tracks.
+// Other browsers in a query (Opera, Samsung Internet, ...) are not evaluated.
+const BROWSER_FAMILIES: Record<string, TargetBrowser> = {
+  chrome: 'chrome',
+  and_chr: 'chrome',
+  edge: 'edge',
+  firefox: 'firefox',
+  and_ff: 'firefox',
+  safari: 'safari',
+  ios_saf: 'safari'
+};
+
+const BASELINE_YEAR = /^baseline\s+(\d{4})$/i;
+const WIDELY_AVAILABLE = /^(baseline\s+)?widely[\s-]available$/i;
+const NEWLY_AVAILABLE = /^(baseline\s+)?newly[\s-]available$/i;
+
+/**
+ * Browser targets a project has to support.
+ *
+ * A query is a comma separated list of parts, each of which is a Baseline
+ * year ("baseline 2022"), "widely available", "newly available" or any
+ * browserslist query ("safari >= 15.4", "> 0.5%"). As with browserslist,
+ * every part adds browsers to support, so a feature is supported only when
+ * it satisfies all of them: "baseline 2022, safari >= 15.4" means Baseline
+ * 2022 plus Safari 15.4.
+ */
+export class BrowserTargets {
+  private constructor(
+    public readonly query: string,
+    private readonly baselineYear: number | undefined,
+    private readonly availability: 'widely' | 'newly' | undefined,
+    private readonly minVersions: Partial<Record<TargetBrowser, string>>
+  ) {}
+
+  /**
+   * Parse a target query. Throws when the browserslist part is invalid.
+   */
+  static parse(query: string | string[]): BrowserTargets {
+    const parts = (Array.isArray(query) ? query : [query])
+      .flatMap(part => part.split(','))
+      .map(part => part.trim())
+      .filter(part => part.length > 0);
+
+    let baselineYear: number | undefined;
+    let availability: 'widely' | 'newly' | undefined;
+    const browserQueries: string[] = [];
+
+    for (const part of parts) {
+      const year = BASELINE_YEAR.exec(part);
+      if (year) {
+        // Several years only make sense as the strictest of them
+        const value = parseInt(year[1], 10);
+        baselineYear = baselineYear === undefined ? value : Math.min(baselineYear, value);
+      } else if (WIDELY_AVAILABLE.test(part)) {
+        availability = 'widely';
+      } else if (NEWLY_AVAILABLE.test(part)) {
+        availability = availability || 'newly';
+      } else {
+        browserQueries.push(part);
+      }
+    }
+
+    const minVersions: Partial<Record<TargetBrowser, string>> = {};
+    if (browserQueries.length > 0) {
+      for (const entry of browserslist(browserQueries)) {
+        const [family, version] = entry.split(' ');
+        const browser = BROWSER_FAMILIES[family];
+        // Ranges such as 'ios_saf 15.4-15.5' start at their lower bound
+        const lowest = version.split('-')[0];
+        if (browser && isVersion(lowest)) {
+          const current = minVersions[browser];
+          if (!current || compareVersions(lowest, current) < 0) {
+            minVersions[browser] = lowest;
+          }
+        }
+      }
+    }
+
+    return new BrowserTargets(parts.join(', '), baselineYear, availability, minVersions);
+  }
+
+  /**
+   * Check a feature's Baseline dates and browser versions against the targets
+   */
+  evaluate(feature: BaselineFeature): TargetSupport {
+    const satisfied: string[] = [];
+    const missing: string[] = [];
+
+    if (this.baselineYear !== undefined) {
+      const label = `Baseline ${this.baselineYear}`;
+      const lowYear = yearOf(feature.lowDate);
+      if (lowYear !== undefined && lowYear <= this.baselineYear) {
+        satisfied.push(label);
+      } else {
+        missing.push(lowYear !== undefined ? `${label} (newly available in ${lowYear})` : label);
+      }
+    }
+
+    if (this.availability === 'widely') {
+      (feature.status === 'baseline' ? satisfied : missing).push('Baseline widely available');
+    } else if (this.availability === 'newly') {
+      (feature.status !== 'not-baseline' ? satisfied : missing).push('Baseline newly available');
+    }
+
+    for (const [browser, target] of Object.entries(this.minVersions) as [TargetBrowser, string][]) {
+      const label = `${browser} ${target}`;
+      const since = feature.browserSupport?.[browser];
+      if (since && isVersion(since) && compareVersions(since, target) <= 0) {
+        satisfied.push(label);
+      } else {
+        missing.push(since && isVersion(since) ? `${label} (needs ${since})` : `${label} (unsupported)`);
+      }
+    }
+
+    return { supported: missing.length === 0, satisfied, missing };
+  }
+
+  /**
+   * Status of a feature relative to the targets: 'baseline' when every
+   * target supports it, 'limited' when only some do (or it is at least
+   * newly available), 'not-baseline' otherwise
+   */
+  statusFor(feature: BaselineFeature): BaselineStatus {
+    const support = this.evaluate(feature);
+    if (support.supported) {
+      return 'baseline';
+    }
+    if (support.satisfied.length > 0 || feature.status !== 'not-baseline') {
+      return 'limited';
+    }
+    return 'not-baseline';
+  }
+
+  /**
+   * Oldest targeted version of each browser, for display
+   */
+  getBrowserVersions(): Partial<Record<TargetBrowser, string>> {
+    return { ...this.minVersions };
+  }
+
+  toString(): string {
+    return this.query;
+  }
+}
+
+/**
+ * Feature status with or without targets, so callers can treat both alike
+ */
+export function resolveStatus(feature: BaselineFeature, targets?: BrowserTargets): BaselineStatus {
+  return targets ? targets.statusFor(feature) : feature.status;
+}
+
+/**
+ * Parse an optional target query, treating blank input as "no targets"
+ */
+export function parseTargets(query: string | string[] | undefined): BrowserTargets | undefined {
+  const isBlank = !query || (Array.isArray(query) ? query.every(part => !part.trim()) : !query.trim());
+  return isBlank ? undefined : BrowserTargets.parse(query);
+}
+
+function isVersion(version: string): boolean {
+  return /^[≤]?\d+(\.\d+)*$/.test(version);
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.replace(/^≤/, '').split('.').map(Number);
+  const right = b.replace(/^≤/, '').split('.').map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function yearOf(date: string | undefined): number | undefined {
+  const match = date ? /(\d{4})/.exec(date) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
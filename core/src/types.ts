@@ -0,0 +1,155 @@
+export type BaselineStatus = 'baseline' | 'limited' | 'not-baseline';
+
+export interface BrowserSupport {
+  chrome?: string;
+  edge?: string;
+  firefox?: string;
+  safari?: string;
+}
+
+export interface BaselineFeature {
+  id: string;
+  name: string;
+  status: BaselineStatus;
+  since?: string; // Date when it became Baseline
+  lowDate?: string; // Date it became newly available
+  highDate?: string; // Date it became widely available
+  description: string;
+  mdn_url?: string;
+  spec_url?: string;
+  browserSupport: BrowserSupport;
+}
+
+export interface CSSFeature extends BaselineFeature {
+  properties: string[];
+  // Other lookup keys: values ('position: sticky', 'oklch()', 'dvh'),
+  // at-rules ('@container'), media features ('(prefers-color-scheme)')
+  // and selectors (':has', '&')
+  values?: string[];
+}
+
+export interface JSFeature extends BaselineFeature {
+  api: string;
+  methods?: string[];
+}
+
+export type SourceLanguage = 'css' | 'js';
+
+/**
+ * A detected usage in source text. Offsets are character offsets into the
+ * analyzed text; line and column are zero-based.
+ */
+export interface SourceUsage {
+  name: string; // lookup key, e.g. 'container-type' or 'navigator.share'
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+  guards?: FeatureCheck[]; // what the feature-detection checks around the usage test
+}
+
+/**
+ * Something a feature-detection check tests: the `container-type`
+ * declaration of `@supports (container-type: inline-size)`, or
+ * `navigator.share` for `'share' in navigator`. A usage behind a check for
+ * its own feature is progressively enhanced.
+ */
+export interface FeatureCheck {
+  language: SourceLanguage;
+  usage: SourceUsage;
+}
+
+/**
+ * What part of a stylesheet a CSS usage covers. Each kind has its own
+ * lookup key format: 'container-type' for a property, 'position: sticky'
+ * for a keyword value, 'oklch()' for a function, 'dvh' for a unit,
+ * '@container' for an at-rule, '(prefers-color-scheme)' for a media
+ * feature ('(range)' for range syntax) and ':has' or '&' for a selector.
+ */
+export type CSSUsageKind = 'property' | 'value' | 'function' | 'unit' | 'at-rule' | 'media-feature' | 'selector';
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface CSSUsage extends SourceUsage {
+  kind: CSSUsageKind;
+  property?: string; // property of the declaration, for declaration usages
+  value: string; // full declaration value, at-rule prelude or selector
+  declaration?: SourceRange; // whole declaration, including its semicolon
+  rule?: SourceRange; // closest enclosing style rule, or the rule a selector belongs to
+}
+
+/**
+ * How a JS usage was resolved. 'global' is a free identifier ('fetch',
+ * 'IntersectionObserver'), 'member' a member of a global or of a receiver
+ * whose type is known ('Promise.allSettled', 'navigator.clipboard',
+ * 'Array.prototype.at'), 'method' a call on a receiver of unknown type whose
+ * name is just the method ('at'), and 'syntax' a language feature named by
+ * its syntax ('async', '?.', '??=', '#field', 'static {}', '/v').
+ */
+export type JSUsageKind = 'global' | 'member' | 'method' | 'syntax';
+
+export interface JSUsage extends SourceUsage {
+  kind: JSUsageKind;
+  context: string; // surrounding code for better detection
+}
+
+/**
+ * A call or `new` expression around a JS usage, as source text, for tools
+ * that rewrite it
+ */
+export interface JSCallSite {
+  callee: string; // 'navigator.share', 'structuredClone'
+  receiver?: string; // 'navigator' for a member call
+  member?: string; // 'share' for a member call
+  args: string[];
+  isNew: boolean;
+  range: SourceRange; // the whole call
+  statement?: SourceRange; // the expression statement running the call, if any
+}
+
+/**
+ * A usage resolved to the feature it belongs to. `status` is the feature's
+ * Baseline status, or its status relative to the browser targets when the
+ * analysis was given some.
+ */
+export interface FeatureMatch {
+  usage: SourceUsage;
+  feature: BaselineFeature;
+  status: BaselineStatus;
+  guarded?: boolean; // not Baseline, but only used where a check found support
+}
+
+/**
+ * How far a suppression comment reaches: its own line
+ * (`baseline-ignore`), the line after it (`baseline-ignore-next-line`) or
+ * the whole file (`baseline-disable`)
+ */
+export type SuppressionKind = 'ignore' | 'ignore-next-line' | 'disable';
+
+/**
+ * A suppression comment, e.g.
+ * `// baseline-ignore-next-line navigator.share -- desktop has a copy button`.
+ * Names can be feature ids, lookup keys ('navigator.share', ':has') or CSS
+ * properties; an empty list covers every feature.
+ */
+export interface Suppression {
+  kind: SuppressionKind;
+  line: number; // zero-based line of the comment
+  names: string[];
+  reason?: string; // text after `--`
+  suppressed: FeatureMatch[]; // findings it silenced
+}
+
+/**
+ * Matches by status. Guarded (progressively enhanced) matches are counted
+ * on their own rather than as limited or non-Baseline.
+ */
+export interface StatusCounts {
+  baseline: number;
+  limited: number;
+  nonBaseline: number;
+  guarded: number;
+}
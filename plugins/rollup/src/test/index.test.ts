@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { rollup, Plugin } from 'rollup';
+import * as ts from 'typescript';
+import baselinePlugin from '../index';
+
+// Compiles TypeScript the way a TS plugin listed first would: comments gone,
+// lines moved
+const typescriptPlugin: Plugin = {
+  name: 'typescript',
+  transform(code, id) {
+    if (!id.endsWith('.ts')) {
+      return null;
+    }
+    return ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, removeComments: true } }).outputText;
+  }
+};
+
+describe('rollup-plugin-baseline', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-rollup-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('honors suppression comments in TypeScript compiled by an earlier plugin', async () => {
+    const input = path.join(dir, 'main.ts');
+    fs.writeFileSync(input, [
+      'interface Options { label: string }',
+      'declare const seen: Set<string>;',
+      '',
+      '// baseline-ignore-next-line set-methods -- polyfilled',
+      'export const all = new Set<string>([]).union(seen);',
+      'export const labels = (options: Options) => new Set([options.label]).union(seen);',
+      ''
+    ].join('\n'));
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => {
+      lines.push(args.join(' '));
+    };
+    try {
+      const bundle = await rollup({ input, plugins: [typescriptPlugin, baselinePlugin({ verbose: true, threshold: 0 })] });
+      await bundle.generate({ format: 'es' });
+      await bundle.close();
+    } finally {
+      console.log = log;
+    }
+
+    const output = lines.join('\n');
+    assert.match(output, /✗ Non-Baseline: .*1/);
+    assert.match(output, /1 findings suppressed by 1 comments/);
+    assert.ok(output.includes(`${input}:4 baseline-ignore-next-line set-methods (polyfilled)`), output);
+  });
+});
@@ -1,5 +1,17 @@
 import type { Plugin } from 'vite';
+import * as fs from 'fs';
 import chalk from 'chalk';
+import {
+  BaselineStatus,
+  BrowserTargets,
+  FeatureIndex,
+  SuppressionKind,
+  analyzeSourceWithSuppressions,
+  calculateScore,
+  countByStatus,
+  languageForFile,
+  parseTargets
+} from '@baseline/core';
 
 interface BaselineVitePluginOptions {
   failOnNonBaseline?: boolean;
@@ -7,17 +19,29 @@ interface BaselineVitePluginOptions {
   verbose?: boolean;
   cssOnly?: boolean;
   jsOnly?: boolean;
+  targets?: string | string[];
 }
 
 interface FeatureAnalysis {
   baseline: number;
+  guarded: number;
   limited: number;
   nonBaseline: number;
   features: Array<{
     feature: string;
-    status: string;
+    status: BaselineStatus;
+    guarded?: boolean;
     file: string;
   }>;
+  // Suppression comments, with what each one silenced
+  suppressions: Array<{
+    kind: SuppressionKind;
+    names: string[];
+    reason?: string;
+    file: string;
+    line: number;
+    suppressed: number;
+  }>;
 }
 
 export default function baselinePlugin(
@@ -34,31 +58,18 @@ export default function baselinePlugin(
 
   const analysis: FeatureAnalysis = {
     baseline: 0,
+    guarded: 0,
     limited: 0,
     nonBaseline: 0,
-    features: []
+    features: [],
+    suppressions: []
   };
 
-  const baselineData = {
-    css: {
-      'display': 'baseline',
-      'flex': 'baseline',
-      'gap': 'baseline',
-      'grid': 'baseline',
-      'container-type': 'limited',
-      'backdrop-filter': 'baseline',
-      'transform': 'baseline'
-    },
-    js: {
-      'fetch': 'baseline',
-      'Promise': 'baseline',
-      'IntersectionObserver': 'baseline',
-      'ResizeObserver': 'baseline',
-      'async': 'baseline',
-      'document.startViewTransition': 'limited',
-      'navigator.share': 'limited'
-    }
-  };
+  // Built lazily so merely importing the plugin stays cheap
+  let index: FeatureIndex | undefined;
+
+  // Parsed up front so an invalid query fails before the build starts
+  const targets = parseTargets(config.targets);
 
   return {
     name: 'vite-plugin-baseline',
@@ -66,6 +77,9 @@ export default function baselinePlugin(
     // Run in build mode
     apply: 'build',
 
+    // Before Vite's own esbuild and CSS transforms
+    enforce: 'pre',
+
     // Transform hook - analyze each module
     transform(code: string, id: string) {
       // Skip node_modules
@@ -73,14 +87,10 @@ export default function baselinePlugin(
         return null;
       }
 
-      // Analyze CSS files
-      if (/\.(css|scss|sass|less)$/.test(id) && !config.jsOnly) {
-        analyzeCSS(code, id, analysis, baselineData.css, config.verbose);
-      }
-
-      // Analyze JavaScript/TypeScript files
-      if (/\.(js|jsx|ts|tsx)$/.test(id) && !config.cssOnly) {
-        analyzeJavaScript(code, id, analysis, baselineData.js, config.verbose);
+      const language = languageForFile(id);
+      if ((language === 'css' && !config.jsOnly) || (language === 'js' && !config.cssOnly)) {
+        index = index || FeatureIndex.fromWebFeatures();
+        analyzeModule(originalSource(id, code), id, language, analysis, index, targets);
       }
 
       return null;
@@ -88,14 +98,14 @@ export default function baselinePlugin(
 
     // Build end - print results
     closeBundle() {
-      printResults(analysis, config);
+      printResults(analysis, config, targets);
 
       // Check thresholds
-      const total = analysis.baseline + analysis.limited + analysis.nonBaseline;
-      const score = total > 0 ? Math.round((analysis.baseline / total) * 100) : 100;
+      const score = calculateScore(analysis);
 
       if (config.threshold && score < config.threshold) {
-        const message = `Baseline score (${score}%) is below threshold (${config.threshold}%)`;
+        const scoreLabel = targets ? 'Target support score' : 'Baseline score';
+        const message = `${scoreLabel} (${score}%) is below threshold (${config.threshold}%)`;
         if (config.failOnNonBaseline) {
           throw new Error(message);
         } else {
@@ -104,102 +114,98 @@ export default function baselinePlugin(
       }
 
       if (config.failOnNonBaseline && analysis.nonBaseline > 0) {
-        throw new Error(`Found ${analysis.nonBaseline} non-baseline features`);
+        throw new Error(`Found ${analysis.nonBaseline} ${targets ? 'features not supported by your targets' : 'non-baseline features'}`);
       }
     }
   };
 }
 
-function analyzeCSS(
-  code: string,
-  filename: string,
-  analysis: FeatureAnalysis,
-  baselineData: Record<string, string>,
-  verbose: boolean
-): void {
-  const propertyRegex = /([\w-]+)\s*:\s*([^;]+);/g;
-  let match;
-
-  while ((match = propertyRegex.exec(code)) !== null) {
-    const property = match[1];
-    const status = baselineData[property];
-
-    if (status) {
-      analysis.features.push({
-        feature: property,
-        status,
-        file: filename
-      });
-
-      if (status === 'baseline') {
-        analysis.baseline++;
-      } else if (status === 'limited') {
-        analysis.limited++;
-      } else {
-        analysis.nonBaseline++;
-      }
-    }
+// The module as written: TypeScript, Babel and CSS transforms that ran first
+// drop comments, suppressions included, and move lines. Virtual modules have
+// no file, so their code is all there is.
+function originalSource(id: string, code: string): string {
+  try {
+    return fs.readFileSync(id.split('?')[0], 'utf-8');
+  } catch {
+    return code;
   }
 }
 
-function analyzeJavaScript(
+function analyzeModule(
   code: string,
   filename: string,
+  language: 'css' | 'js',
   analysis: FeatureAnalysis,
-  baselineData: Record<string, string>,
-  verbose: boolean
+  index: FeatureIndex,
+  targets?: BrowserTargets
 ): void {
-  const patterns = [
-    /\b(fetch|IntersectionObserver|ResizeObserver|Promise)\b/g,
-    /\basync\s+function/g,
-    /navigator\.(share)/g,
-    /document\.(startViewTransition)/g
-  ];
-
-  patterns.forEach(regex => {
-    let match;
-    while ((match = regex.exec(code)) !== null) {
-      const api = match[1] || 'async';
-      const status = baselineData[api];
-
-      if (status) {
-        analysis.features.push({
-          feature: api,
-          status,
-          file: filename
-        });
-
-        if (status === 'baseline') {
-          analysis.baseline++;
-        } else if (status === 'limited') {
-          analysis.limited++;
-        } else {
-          analysis.nonBaseline++;
-        }
-      }
-    }
-  });
+  const { matches, suppressions } = analyzeSourceWithSuppressions(code, language, index, targets, filename);
+  const counts = countByStatus(matches);
+
+  analysis.baseline += counts.baseline;
+  analysis.guarded += counts.guarded;
+  analysis.limited += counts.limited;
+  analysis.nonBaseline += counts.nonBaseline;
+
+  for (const { feature, status, guarded } of matches) {
+    analysis.features.push({
+      feature: feature.name,
+      status,
+      guarded,
+      file: filename
+    });
+  }
+
+  for (const { kind, names, reason, line, suppressed } of suppressions) {
+    analysis.suppressions.push({ kind, names, reason, file: filename, line: line + 1, suppressed: suppressed.length });
+  }
 }
 
-function printResults(analysis: FeatureAnalysis, config: BaselineVitePluginOptions): void {
-  const total = analysis.baseline + analysis.limited + analysis.nonBaseline;
-  const score = total > 0 ? Math.round((analysis.baseline / total) * 100) : 100;
+function printResults(
+  analysis: FeatureAnalysis,
+  config: BaselineVitePluginOptions,
+  targets?: BrowserTargets
+): void {
+  const score = calculateScore(analysis);
   const scoreColor = score >= 80 ? chalk.green : score >= 60 ? chalk.yellow : chalk.red;
 
   console.log(chalk.cyan('\n🔍 Baseline Compatibility Check (Vite)\n'));
-  console.log(`Baseline Score: ${scoreColor(score + '%')}`);
-  console.log(`✓ Baseline:     ${chalk.green(analysis.baseline)}`);
-  console.log(`⚠ Limited:      ${chalk.yellow(analysis.limited)}`);
-  console.log(`✗ Non-Baseline: ${chalk.red(analysis.nonBaseline)}`);
+  if (targets) {
+    console.log(`Targets: ${targets.query}`);
+    console.log(`Target Support Score: ${scoreColor(score + '%')}`);
+    console.log(`✓ Supported by your targets: ${chalk.green(analysis.baseline)}`);
+    console.log(`◐ Guarded by feature checks: ${chalk.blue(analysis.guarded)}`);
+    console.log(`⚠ Partially supported:       ${chalk.yellow(analysis.limited)}`);
+    console.log(`✗ Not supported:             ${chalk.red(analysis.nonBaseline)}`);
+  } else {
+    console.log(`Baseline Score: ${scoreColor(score + '%')}`);
+    console.log(`✓ Baseline:     ${chalk.green(analysis.baseline)}`);
+    console.log(`◐ Guarded:      ${chalk.blue(analysis.guarded)}`);
+    console.log(`⚠ Limited:      ${chalk.yellow(analysis.limited)}`);
+    console.log(`✗ Non-Baseline: ${chalk.red(analysis.nonBaseline)}`);
+  }
+
+  if (analysis.suppressions.length > 0) {
+    const suppressed = analysis.suppressions.reduce((total, s) => total + s.suppressed, 0);
+    console.log(chalk.dim(`🔕 ${suppressed} findings suppressed by ${analysis.suppressions.length} comments`));
+  }
 
   if (config.verbose && analysis.nonBaseline > 0) {
-    console.log(chalk.yellow('\n⚠ Non-Baseline Features:\n'));
-    const nonBaseline = analysis.features.filter(f => f.status === 'not-baseline');
+    console.log(chalk.yellow(targets ? '\n⚠ Features Not Supported by Your Targets:\n' : '\n⚠ Non-Baseline Features:\n'));
+    const nonBaseline = analysis.features.filter(f => f.status === 'not-baseline' && !f.guarded);
     nonBaseline.forEach(f => {
       console.log(chalk.dim(`  ${f.file}: ${f.feature}`));
     });
   }
 
+  if (config.verbose && analysis.suppressions.length > 0) {
+    console.log(chalk.dim('\n🔕 Suppressions:\n'));
+    analysis.suppressions.forEach(s => {
+      const directive = [`baseline-${s.kind}`, ...s.names].join(' ');
+      console.log(chalk.dim(`  ${s.file}:${s.line} ${directive} (${s.reason || 'no reason given'})`));
+    });
+  }
+
   console.log();
 }
 
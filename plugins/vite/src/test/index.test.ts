@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { build } from 'vite';
+import baselinePlugin from '../index';
+
+describe('vite-plugin-baseline', function () {
+  // A real build, with Vite's esbuild transform removing comments from TypeScript
+  this.timeout(20000);
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-vite-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('honors suppression comments in TypeScript', async () => {
+    const input = path.join(dir, 'main.ts');
+    fs.writeFileSync(input, [
+      'interface Options { label: string }',
+      'declare const seen: Set<string>;',
+      '',
+      '// baseline-ignore-next-line set-methods -- polyfilled',
+      'export const all = new Set<string>([]).union(seen);',
+      'export const labels = (options: Options) => new Set([options.label]).union(seen);',
+      ''
+    ].join('\n'));
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => {
+      lines.push(args.join(' '));
+    };
+    try {
+      await build({
+        root: dir,
+        configFile: false,
+        logLevel: 'silent',
+        plugins: [baselinePlugin({ verbose: true, threshold: 0 })],
+        build: { write: false, lib: { entry: input, formats: ['es'], fileName: 'main' } }
+      });
+    } finally {
+      console.log = log;
+    }
+
+    const output = lines.join('\n');
+    assert.match(output, /✗ Non-Baseline: .*1/);
+    assert.match(output, /1 findings suppressed by 1 comments/);
+    assert.ok(output.includes(`${input}:4 baseline-ignore-next-line set-methods (polyfilled)`), output);
+  });
+});
@@ -1,5 +1,16 @@
 import * as webpack from 'webpack';
 import * as chalk from 'chalk';
+import {
+  BaselineStatus,
+  BrowserTargets,
+  FeatureIndex,
+  StatusCounts,
+  SuppressionKind,
+  analyzeSourceWithSuppressions,
+  calculateScore,
+  languageForFile,
+  parseTargets
+} from '@baseline/core';
 
 interface BaselinePluginOptions {
   // Fail build if non-baseline features found
@@ -19,38 +30,34 @@ interface BaselinePluginOptions {
   
   // Exclude certain files from checking
   exclude?: RegExp[];
+
+  // Browser targets, e.g. "baseline 2022, safari >= 15.4" or "widely available"
+  targets?: string | string[];
 }
 
 interface FeatureUsage {
   feature: string;
-  status: 'baseline' | 'limited' | 'not-baseline';
+  status: BaselineStatus;
+  guarded?: boolean;
   file: string;
   line?: number;
 }
 
+// A suppression comment, with how many findings it silenced
+interface SuppressionUsage {
+  kind: SuppressionKind;
+  names: string[];
+  reason?: string;
+  file: string;
+  line: number;
+  suppressed: number;
+}
+
 class BaselineWebpackPlugin {
   private options: BaselinePluginOptions;
-  private cssRegex = /\.(css|scss|sass|less)$/;
-  private jsRegex = /\.(js|jsx|ts|tsx)$/;
-  
-  // Mock Baseline data
-  private baselineData = {
-    css: {
-      'display': 'baseline',
-      'flex': 'baseline',
-      'gap': 'baseline',
-      'grid': 'baseline',
-      'container-type': 'limited',
-      'backdrop-filter': 'baseline'
-    },
-    js: {
-      'fetch': 'baseline',
-      'Promise': 'baseline',
-      'IntersectionObserver': 'baseline',
-      'async': 'baseline',
-      'document.startViewTransition': 'limited'
-    }
-  };
+  // Built lazily on first emit so constructing the plugin stays cheap
+  private index: FeatureIndex | undefined;
+  private targets: BrowserTargets | undefined;
 
   constructor(options: BaselinePluginOptions = {}) {
     this.options = {
@@ -62,131 +69,120 @@ class BaselineWebpackPlugin {
       exclude: [/node_modules/],
       ...options
     };
+
+    // Parsed up front so an invalid query fails when the config is loaded
+    this.targets = parseTargets(this.options.targets);
   }
 
   apply(compiler: webpack.Compiler): void {
     const pluginName = 'BaselineWebpackPlugin';
 
-    compiler.hooks.emit.tapAsync(pluginName, (compilation, callback) => {
-      console.log(chalk.cyan('\n🔍 Baseline Compatibility Check\n'));
-
-      const features: FeatureUsage[] = [];
-      let baselineCount = 0;
-      let limitedCount = 0;
-      let nonBaselineCount = 0;
-
-      // Analyze all assets
-      for (const filename in compilation.assets) {
-        // Skip excluded files
-        if (this.shouldExclude(filename)) {
-          continue;
-        }
-
-        const asset = compilation.assets[filename];
-        const source = asset.source().toString();
-
-        // Check CSS files
-        if (this.cssRegex.test(filename) && !this.options.jsOnly) {
-          const cssFeatures = this.analyzeCSS(source, filename);
-          features.push(...cssFeatures);
-        }
-
-        // Check JavaScript files
-        if (this.jsRegex.test(filename) && !this.options.cssOnly) {
-          const jsFeatures = this.analyzeJavaScript(source, filename);
-          features.push(...jsFeatures);
-        }
-      }
-
-      // Count features by status
-      features.forEach(f => {
-        if (f.status === 'baseline') baselineCount++;
-        else if (f.status === 'limited') limitedCount++;
-        else nonBaselineCount++;
+    // thisCompilation skips child compilers, such as the one html-webpack-plugin runs
+    compiler.hooks.thisCompilation.tap(pluginName, (compilation) => {
+      compilation.hooks.finishModules.tapAsync(pluginName, (modules, callback) => {
+        this.analyzeModules(compilation, modules)
+          .then(() => callback(), callback);
       });
+    });
+  }
+
+  private async analyzeModules(compilation: webpack.Compilation, modules: Iterable<webpack.Module>): Promise<void> {
+    console.log(chalk.cyan('\n🔍 Baseline Compatibility Check\n'));
 
-      // Calculate score
-      const total = baselineCount + limitedCount + nonBaselineCount;
-      const score = total > 0 ? Math.round((baselineCount / total) * 100) : 100;
+    const features: FeatureUsage[] = [];
+    const suppressions: SuppressionUsage[] = [];
+    let baselineCount = 0;
+    let guardedCount = 0;
+    let limitedCount = 0;
+    let nonBaselineCount = 0;
+
+    // The same file can be several modules, imported with different queries
+    const files = new Set<string>();
+    for (const module of modules) {
+      if (module instanceof webpack.NormalModule) {
+        files.add(module.resource.split('?')[0]);
+      }
+    }
 
-      // Print results
-      this.printResults(score, baselineCount, limitedCount, nonBaselineCount, features);
+    for (const filename of files) {
+      // Skip excluded files
+      if (this.shouldExclude(filename)) {
+        continue;
+      }
 
-      // Check thresholds
-      const shouldFail = this.checkThresholds(score, nonBaselineCount);
+      const language = languageForFile(filename);
+      if (!language || (language === 'css' && this.options.jsOnly) || (language === 'js' && this.options.cssOnly)) {
+        continue;
+      }
 
-      if (shouldFail) {
-        compilation.errors.push(
-          new webpack.WebpackError(
-            `Baseline compatibility check failed: Score ${score}% is below threshold ${this.options.threshold}%`
-          )
-        );
+      // The file as written rather than loader output or emitted bundles,
+      // so suppression comments survive and lines point into the source
+      const source = await this.readSource(compilation, filename);
+      if (source !== undefined) {
+        features.push(...this.analyzeModule(source, filename, language, suppressions));
       }
+    }
 
-      callback();
+    // Count features by status
+    features.forEach(f => {
+      if (f.guarded) guardedCount++;
+      else if (f.status === 'baseline') baselineCount++;
+      else if (f.status === 'limited') limitedCount++;
+      else nonBaselineCount++;
     });
 
-    // Add asset info to compilation
-    compiler.hooks.compilation.tap(pluginName, (compilation) => {
-      compilation.hooks.processAssets.tap(
-        {
-          name: pluginName,
-          stage: webpack.Compilation.PROCESS_ASSETS_STAGE_ANALYSE
-        },
-        () => {
-          // Analysis hook for future detailed reporting
-        }
-      );
+    // Calculate score
+    const score = calculateScore({
+      baseline: baselineCount,
+      guarded: guardedCount,
+      limited: limitedCount,
+      nonBaseline: nonBaselineCount
     });
-  }
 
-  private analyzeCSS(source: string, filename: string): FeatureUsage[] {
-    const features: FeatureUsage[] = [];
-    const propertyRegex = /([\w-]+)\s*:\s*([^;]+);/g;
-
-    let match;
-    while ((match = propertyRegex.exec(source)) !== null) {
-      const property = match[1];
-      const status = this.baselineData.css[property as keyof typeof this.baselineData.css];
-
-      if (status) {
-        features.push({
-          feature: property,
-          status: status as any,
-          file: filename
-        });
-      }
-    }
+    // Print results
+    this.printResults(score, { baseline: baselineCount, guarded: guardedCount, limited: limitedCount, nonBaseline: nonBaselineCount }, features, suppressions);
 
-    return features;
+    // Check thresholds
+    const shouldFail = this.checkThresholds(score, nonBaselineCount);
+
+    if (shouldFail) {
+      compilation.errors.push(
+        new webpack.WebpackError(
+          `Baseline compatibility check failed: ${this.targets ? 'Target support score' : 'Score'} ${score}% is below threshold ${this.options.threshold}%`
+        )
+      );
+    }
   }
 
-  private analyzeJavaScript(source: string, filename: string): FeatureUsage[] {
-    const features: FeatureUsage[] = [];
-    
-    const patterns = [
-      { regex: /\b(fetch|IntersectionObserver|Promise)\b/g, type: 'api' },
-      { regex: /\basync\s+function/g, type: 'async' },
-      { regex: /document\.(startViewTransition)/g, type: 'api' }
-    ];
-
-    patterns.forEach(({ regex }) => {
-      let match;
-      while ((match = regex.exec(source)) !== null) {
-        const api = match[1] || 'async';
-        const status = this.baselineData.js[api as keyof typeof this.baselineData.js];
-
-        if (status) {
-          features.push({
-            feature: api,
-            status: status as any,
-            file: filename
-          });
-        }
-      }
+  private readSource(compilation: webpack.Compilation, filename: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+      // Modules without a file on disk, like virtual modules, have nothing to check
+      compilation.inputFileSystem.readFile(filename, (error, data) => {
+        resolve(error || data === undefined ? undefined : data.toString());
+      });
     });
+  }
+
+  private analyzeModule(
+    source: string,
+    filename: string,
+    language: 'css' | 'js',
+    suppressions: SuppressionUsage[]
+  ): FeatureUsage[] {
+    this.index = this.index || FeatureIndex.fromWebFeatures();
+
+    const analysis = analyzeSourceWithSuppressions(source, language, this.index, this.targets, filename);
+    for (const { kind, names, reason, line, suppressed } of analysis.suppressions) {
+      suppressions.push({ kind, names, reason, file: filename, line: line + 1, suppressed: suppressed.length });
+    }
 
-    return features;
+    return analysis.matches.map(({ feature, usage, status, guarded }) => ({
+      feature: feature.name,
+      status,
+      guarded,
+      file: filename,
+      line: usage.line + 1
+    }));
   }
 
   private shouldExclude(filename: string): boolean {
@@ -196,26 +192,48 @@ class BaselineWebpackPlugin {
 
   private printResults(
     score: number,
-    baseline: number,
-    limited: number,
-    nonBaseline: number,
-    features: FeatureUsage[]
+    { baseline, guarded, limited, nonBaseline }: StatusCounts,
+    features: FeatureUsage[],
+    suppressions: SuppressionUsage[]
   ): void {
     const scoreColor = score >= 80 ? chalk.green : score >= 60 ? chalk.yellow : chalk.red;
     
-    console.log(`Baseline Score: ${scoreColor(score + '%')}`);
-    console.log(`✓ Baseline:     ${chalk.green(baseline)}`);
-    console.log(`⚠ Limited:      ${chalk.yellow(limited)}`);
-    console.log(`✗ Non-Baseline: ${chalk.red(nonBaseline)}`);
+    if (this.targets) {
+      console.log(`Targets: ${this.targets.query}`);
+      console.log(`Target Support Score: ${scoreColor(score + '%')}`);
+      console.log(`✓ Supported by your targets: ${chalk.green(baseline)}`);
+      console.log(`◐ Guarded by feature checks: ${chalk.blue(guarded)}`);
+      console.log(`⚠ Partially supported:       ${chalk.yellow(limited)}`);
+      console.log(`✗ Not supported:             ${chalk.red(nonBaseline)}`);
+    } else {
+      console.log(`Baseline Score: ${scoreColor(score + '%')}`);
+      console.log(`✓ Baseline:     ${chalk.green(baseline)}`);
+      console.log(`◐ Guarded:      ${chalk.blue(guarded)}`);
+      console.log(`⚠ Limited:      ${chalk.yellow(limited)}`);
+      console.log(`✗ Non-Baseline: ${chalk.red(nonBaseline)}`);
+    }
+
+    if (suppressions.length > 0) {
+      const suppressed = suppressions.reduce((total, s) => total + s.suppressed, 0);
+      console.log(chalk.dim(`🔕 ${suppressed} findings suppressed by ${suppressions.length} comments`));
+    }
 
     if (this.options.verbose && nonBaseline > 0) {
-      console.log(chalk.yellow('\n⚠ Non-Baseline Features Found:\n'));
-      const nonBaselineFeatures = features.filter(f => f.status === 'not-baseline');
+      console.log(chalk.yellow(this.targets ? '\n⚠ Features Not Supported by Your Targets:\n' : '\n⚠ Non-Baseline Features Found:\n'));
+      const nonBaselineFeatures = features.filter(f => f.status === 'not-baseline' && !f.guarded);
       nonBaselineFeatures.forEach(f => {
         console.log(chalk.dim(`  ${f.file}: ${f.feature}`));
       });
     }
 
+    if (this.options.verbose && suppressions.length > 0) {
+      console.log(chalk.dim('\n🔕 Suppressions:\n'));
+      suppressions.forEach(s => {
+        const directive = [`baseline-${s.kind}`, ...s.names].join(' ');
+        console.log(chalk.dim(`  ${s.file}:${s.line} ${directive} (${s.reason || 'no reason given'})`));
+      });
+    }
+
     console.log(); // Empty line
   }
 
@@ -1,121 +1,93 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
-
-// Import web-features package
-// Note: Actual import will depend on package structure
-// This is a type-safe wrapper around the data
-
-export interface BaselineFeature {
-  id: string;
-  name: string;
-  status: 'baseline' | 'limited' | 'not-baseline';
-  since?: string; // Date when it became Baseline
-  description: string;
-  mdn_url?: string;
-  spec_url?: string;
-  browserSupport: {
-    chrome?: string;
-    edge?: string;
-    firefox?: string;
-    safari?: string;
-  };
-}
-
-export interface CSSFeature extends BaselineFeature {
-  properties: string[];
-  values?: string[];
-}
-
-export interface JSFeature extends BaselineFeature {
-  api: string;
-  methods?: string[];
-}
-
-// Add proper type definitions at the top of the file
-interface WebFeatureData {
-  name?: string;
-  description?: string;
-  baseline?: {
-    status?: string;
-    since?: string;
-  };
-  css?: boolean;
-  properties?: string[];
-  values?: string[];
-  javascript?: boolean;
-  api?: string;
-  methods?: string[];
-  mdn_url?: string;
-  spec_url?: string;
-  support?: {
-    chrome?: { version?: string };
-    edge?: { version?: string };
-    firefox?: { version?: string };
-    safari?: { version?: string };
-  };
-}
-
-interface WebFeaturesPackage {
-  features?: Record<string, WebFeatureData>;
-}
+import {
+  BaselineFeature,
+  BaselineStatus,
+  BrowserTargets,
+  FeatureIndex,
+  CSSFeature,
+  JSFeature,
+  getWebFeaturesVersion,
+  loadConfig,
+  parseTargets,
+  resolveStatus
+} from '@baseline/core';
+import { BaselineDataCache, CachedFeatureData } from './dataCache';
+
+export type { BaselineFeature, CSSFeature, JSFeature } from '@baseline/core';
+
+// Cached data older than this is rebuilt when baseline.autoUpdate is on
+const UPDATE_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
 
 export class BaselineDataProvider {
-  private cssFeatures: Map<string, CSSFeature> = new Map();
-  private jsFeatures: Map<string, JSFeature> = new Map();
-  private dataPath: string;
+  private index: FeatureIndex = FeatureIndex.empty();
+  private cache: BaselineDataCache;
   private lastUpdate: Date | null = null;
+  private dataVersion: string | null = null;
+
+  // Parsed baseline.targets, re-parsed only when the setting changes
+  private targetsQuery: string | undefined;
+  private targets: BrowserTargets | undefined;
+
+  // Targets from the project config file that applies to each directory,
+  // the same resolution the CLI uses. Cleared when a config file changes.
+  private projectTargets = new Map<string, BrowserTargets | undefined>();
+  private reportedConfigErrors = new Set<string>();
 
   constructor(context: vscode.ExtensionContext) {
-    this.dataPath = path.join(context.extensionPath, 'data', 'baseline-features.json');
+    this.cache = new BaselineDataCache(context.globalStorageUri.fsPath);
     this.loadData();
   }
 
   /**
-   * Load and parse web-features data
+   * Load the cached index when it matches the bundled web-features release,
+   * otherwise rebuild it from the package
    */
-  private async loadData(): Promise<void> {
-    try {
-      // TEMPORARY: Skip cache and always use mock data for development
-      console.log('Creating mock Baseline data for development');
-      this.createMockData();
-      await this.cacheData();
-      return;
-
-      // TODO: Re-enable cache and web-features loading later
-      /*
-      if (fs.existsSync(this.dataPath)) {
-        const cachedData = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8'));
-        this.parseCachedData(cachedData);
-        this.lastUpdate = new Date(cachedData.lastUpdate);
-        console.log('Loaded Baseline data from cache');
+  private loadData(): void {
+    const bundledVersion = this.getBundledVersion();
+    const cached = this.cache.load(bundledVersion);
+
+    if (cached.status === 'valid') {
+      this.parseCachedData(cached.data);
+      this.lastUpdate = new Date(cached.data.lastUpdate);
+      this.dataVersion = cached.data.webFeaturesVersion;
+
+      if (!this.needsUpdate() || !this.isAutoUpdateEnabled()) {
+        console.log(`Loaded Baseline data from cache (web-features ${this.dataVersion})`);
         return;
       }
+      console.log('Baseline cache is stale, rebuilding from web-features');
+    } else {
+      console.log(`Baseline cache ${cached.status}: ${cached.reason}`);
+      if (cached.status === 'corrupt') {
+        this.cache.clear();
+      }
+    }
 
-      await this.loadFromPackage();
-      */
+    try {
+      this.loadFromPackage();
     } catch (error) {
-      console.error('Failed to load Baseline data:', error);
-      this.createMockData();
+      // Keep serving a stale but valid cache rather than nothing
+      if (cached.status !== 'valid') {
+        vscode.window.showWarningMessage('Baseline data could not be loaded; compatibility badges are unavailable.');
+      }
     }
   }
 
   /**
    * Load data from web-features npm package
    */
-  private async loadFromPackage(): Promise<void> {
+  private loadFromPackage(): void {
     try {
-      // Dynamic import of web-features package
-      const webFeatures = require('web-features');
-      
-      // Parse and transform the data structure
-      this.parseWebFeatures(webFeatures);
+      this.index = FeatureIndex.fromWebFeatures();
 
-      // Cache the processed data
-      await this.cacheData();
-      
       this.lastUpdate = new Date();
-      console.log('Loaded Baseline data from web-features package');
+      this.dataVersion = this.index.version;
+      const stats = this.index.getStats();
+      console.log(`Loaded Baseline data from web-features ${this.dataVersion}: ${stats.css} CSS properties and values, ${stats.js} JS APIs indexed`);
+
+      // Cache the processed data
+      this.cacheData();
     } catch (error) {
       console.error('Failed to load from package:', error);
       throw error;
@@ -123,400 +95,180 @@ export class BaselineDataProvider {
   }
 
   /**
-   * Parse web-features package structure
+   * Read the version of the bundled web-features package
    */
-  private parseWebFeatures(data: any): void {
-    // Cast to proper type
-    const webFeaturesData = data as WebFeaturesPackage;
-
-    if (webFeaturesData.features) {
-      for (const [featureId, featureData] of Object.entries(webFeaturesData.features)) {
-        // featureData is now properly typed as WebFeatureData
-        const feature = featureData as WebFeatureData;
-        const baselineStatus = this.determineBaselineStatus(feature);
-
-        // Check if it's a CSS feature
-        if (feature.css || feature.properties) {
-          const cssFeature: CSSFeature = {
-            id: featureId,
-            name: feature.name || featureId,
-            status: baselineStatus,
-            since: feature.baseline?.since,
-            description: feature.description || '',
-            mdn_url: feature.mdn_url,
-            spec_url: feature.spec_url,
-            properties: feature.properties || [],
-            values: feature.values,
-            browserSupport: this.extractBrowserSupport(feature)
-          };
-          
-          // Index by each property for quick lookup
-          cssFeature.properties.forEach(prop => {
-            this.cssFeatures.set(prop, cssFeature);
-          });
-        }
-
-        // Check if it's a JavaScript API
-        if (feature.javascript || feature.api) {
-          const jsFeature: JSFeature = {
-            id: featureId,
-            name: feature.name || featureId,
-            status: baselineStatus,
-            since: feature.baseline?.since,
-            description: feature.description || '',
-            mdn_url: feature.mdn_url,
-            spec_url: feature.spec_url,
-            api: feature.api || featureId,
-            methods: feature.methods,
-            browserSupport: this.extractBrowserSupport(feature)
-          };
-
-          this.jsFeatures.set(jsFeature.api, jsFeature);
-        }
-      }
+  private getBundledVersion(): string {
+    try {
+      return getWebFeaturesVersion();
+    } catch (error) {
+      console.error('Failed to read web-features version:', error);
+      return 'unknown';
     }
   }
 
+  private isAutoUpdateEnabled(): boolean {
+    return vscode.workspace.getConfiguration('baseline').get('autoUpdate', true);
+  }
+
   /**
-   * Determine Baseline status from feature data
+   * Parse cached data structure
    */
-private determineBaselineStatus(feature: WebFeatureData): 'baseline' | 'limited' | 'not-baseline' {
-  // Handle baseline as boolean
-  if (typeof feature.baseline === 'boolean') {
-    return feature.baseline ? 'baseline' : 'not-baseline';
+  private parseCachedData(data: CachedFeatureData): void {
+    this.index = FeatureIndex.fromTables(data, data.webFeaturesVersion);
   }
-  
-  // Handle baseline as object
-  if (typeof feature.baseline === 'object' && feature.baseline !== null) {
-    if (feature.baseline.status === 'widely_available') {
-      return 'baseline';
-    } else if (feature.baseline.status === 'newly_available') {
-      return 'limited';
+
+  /**
+   * Cache processed data to the extension's global storage
+   */
+  private cacheData(): void {
+    try {
+      const tables = this.index.toTables();
+      this.cache.save(this.dataVersion || 'unknown', tables.css, tables.js);
+    } catch (error) {
+      // A missing cache only costs a rebuild on next start
+      console.error('Failed to write Baseline cache:', error);
     }
   }
-  
-  return 'not-baseline';
-}
 
   /**
-   * Extract browser support information
+   * Shared feature index used by the parsers and analyzers
    */
-  private extractBrowserSupport(feature: WebFeatureData): BaselineFeature['browserSupport'] {
-    const support: BaselineFeature['browserSupport'] = {};
-    
-    if (feature.support) {
-      support.chrome = feature.support.chrome?.version;
-      support.edge = feature.support.edge?.version;
-      support.firefox = feature.support.firefox?.version;
-      support.safari = feature.support.safari?.version;
-    }
+  public getIndex(): FeatureIndex {
+    return this.index;
+  }
 
-    return support;
+  /**
+   * Get CSS feature by property name or value-level key ('oklch()', 'position: sticky')
+   */
+  public getCSSFeature(key: string): CSSFeature | undefined {
+    return this.index.getCSSFeature(key);
   }
 
   /**
-   * Parse cached data structure
+   * Get JS feature by API name
    */
-  private parseCachedData(data: any): void {
-    if (data.css) {
-      for (const [property, feature] of Object.entries(data.css)) {
-        this.cssFeatures.set(property, feature as CSSFeature);
-      }
+  public getJSFeature(api: string): JSFeature | undefined {
+    return this.index.getJSFeature(api);
+  }
+
+  /**
+   * Browser targets from baseline.targets or, when that is empty, from the
+   * project config file nearest to the resource (`.baselinerc.json`,
+   * package.json `baseline`, `baseline.config.{js,mjs,ts}`). Undefined
+   * means rating features by their Baseline status alone.
+   */
+  public getTargets(resource?: vscode.Uri): BrowserTargets | undefined {
+    const query = vscode.workspace.getConfiguration('baseline').get<string>('targets', '').trim();
+    if (!query) {
+      return this.getProjectTargets(resource);
+    }
+    if (query === this.targetsQuery) {
+      return this.targets;
     }
 
-    if (data.js) {
-      for (const [api, feature] of Object.entries(data.js)) {
-        this.jsFeatures.set(api, feature as JSFeature);
-      }
+    this.targetsQuery = query;
+    try {
+      this.targets = parseTargets(query);
+    } catch (error) {
+      this.targets = undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(`Invalid baseline.targets "${query}": ${message}`);
     }
+    return this.targets;
   }
 
   /**
-   * Cache processed data to disk
+   * Forget project config targets, e.g. after a config file changed
    */
-  private async cacheData(): Promise<void> {
-    const cacheData = {
-      lastUpdate: new Date().toISOString(),
-      css: Object.fromEntries(this.cssFeatures),
-      js: Object.fromEntries(this.jsFeatures)
-    };
-
-    const dataDir = path.dirname(this.dataPath);
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
+  public clearProjectConfig(): void {
+    this.projectTargets.clear();
+    this.reportedConfigErrors.clear();
+  }
+
+  private getProjectTargets(resource?: vscode.Uri): BrowserTargets | undefined {
+    const dir = resource?.scheme === 'file'
+      ? path.dirname(resource.fsPath)
+      : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!dir) {
+      return undefined;
     }
 
-    fs.writeFileSync(this.dataPath, JSON.stringify(cacheData, null, 2));
+    if (!this.projectTargets.has(dir)) {
+      let targets: BrowserTargets | undefined;
+      try {
+        targets = parseTargets(loadConfig(dir).config.targets);
+      } catch (error) {
+        // Every file under a broken config would otherwise report it again
+        const message = error instanceof Error ? error.message : String(error);
+        if (!this.reportedConfigErrors.has(message)) {
+          this.reportedConfigErrors.add(message);
+          vscode.window.showWarningMessage(`Baseline config ignored: ${message}`);
+        }
+      }
+      this.projectTargets.set(dir, targets);
+    }
+    return this.projectTargets.get(dir);
   }
 
   /**
-   * Get CSS feature by property name
+   * Status of a feature relative to the configured targets
    */
-  public getCSSFeature(property: string): CSSFeature | undefined {
-    return this.cssFeatures.get(property);
+  public getStatus(feature: BaselineFeature, resource?: vscode.Uri): BaselineStatus {
+    return resolveStatus(feature, this.getTargets(resource));
   }
 
   /**
-   * Get JS feature by API name
+   * Check if data needs updating (older than 7 days or from another
+   * web-features release than the one bundled)
    */
-  public getJSFeature(api: string): JSFeature | undefined {
-    return this.jsFeatures.get(api);
+  public needsUpdate(): boolean {
+    if (!this.lastUpdate || this.dataVersion !== this.getBundledVersion()) {
+      return true;
+    }
+
+    return Date.now() - this.lastUpdate.getTime() > UPDATE_INTERVAL_MS;
   }
 
   /**
-   * Check if data needs updating (older than 7 days)
+   * Rebuild the cache when baseline.autoUpdate is on and the data is stale
    */
-  public needsUpdate(): boolean {
-    if (!this.lastUpdate) return true;
-    
-    const weekInMs = 7 * 24 * 60 * 60 * 1000;
-    return Date.now() - this.lastUpdate.getTime() > weekInMs;
+  public async checkForUpdates(): Promise<boolean> {
+    if (!this.isAutoUpdateEnabled() || !this.needsUpdate()) {
+      return false;
+    }
+
+    this.loadFromPackage();
+    return true;
   }
 
   /**
    * Force refresh data from package
    */
   public async refresh(): Promise<void> {
-    await this.loadFromPackage();
-    vscode.window.showInformationMessage('Baseline data refreshed successfully');
+    this.cache.clear();
+    this.loadFromPackage();
+    vscode.window.showInformationMessage(`Baseline data refreshed (web-features ${this.dataVersion})`);
+  }
+
+  /**
+   * Version of web-features the loaded data was built from
+   */
+  public getDataVersion(): string | null {
+    return this.dataVersion;
   }
 
   /**
    * Get total feature count
    */
   public getStats(): { css: number; js: number; baseline: number } {
-    let baselineCount = 0;
-    
-    this.cssFeatures.forEach(feature => {
-      if (feature.status === 'baseline') baselineCount++;
-    });
-    
-    this.jsFeatures.forEach(feature => {
-      if (feature.status === 'baseline') baselineCount++;
-    });
-
-    return {
-      css: this.cssFeatures.size,
-      js: this.jsFeatures.size,
-      baseline: baselineCount
-    };
+    return this.index.getStats();
   }
 
   /**
-   * Create mock data for development/testing
+   * Replace the loaded data with an explicit feature set (used by tests)
    */
-  private createMockData(): void {
-    console.log('Creating mock Baseline data for development');
-    
-    // Mock CSS features (keep existing ones)
-    const mockCSSFeatures: CSSFeature[] = [
-      {
-        id: 'css-display',
-        name: 'CSS Display',
-        status: 'baseline',
-        since: '2015-07',
-        description: 'The display CSS property sets whether an element is treated as a block or inline box.',
-        properties: ['display'],
-        browserSupport: { chrome: '1', edge: '12', firefox: '1', safari: '1' }
-      },
-      {
-        id: 'css-gap',
-        name: 'CSS Gap Property',
-        status: 'baseline',
-        since: '2021-09',
-        description: 'The gap property defines spacing between rows and columns in flexbox and grid layouts.',
-        properties: ['gap', 'row-gap', 'column-gap'],
-        browserSupport: { chrome: '84', edge: '84', firefox: '63', safari: '14.1' }
-      },
-      {
-        id: 'css-flexbox',
-        name: 'CSS Flexible Box Layout',
-        status: 'baseline',
-        since: '2017-03',
-        description: 'Flexbox layout provides an efficient way to align and distribute space among items.',
-        properties: ['flex', 'flex-direction', 'flex-wrap', 'justify-content', 'align-items', 'align-content', 'flex-grow', 'flex-shrink', 'flex-basis'],
-        browserSupport: { chrome: '29', edge: '12', firefox: '20', safari: '9' }
-      },
-      {
-        id: 'css-grid',
-        name: 'CSS Grid Layout',
-        status: 'baseline',
-        since: '2020-01',
-        description: 'CSS Grid Layout excels at dividing a page into major regions.',
-        properties: ['grid', 'grid-template-columns', 'grid-template-rows', 'grid-area', 'grid-column', 'grid-row'],
-        browserSupport: { chrome: '57', edge: '16', firefox: '52', safari: '10.1' }
-      },
-      {
-        id: 'css-position-sticky',
-        name: 'CSS Position Sticky',
-        status: 'baseline',
-        since: '2020-07',
-        description: 'The sticky position creates a hybrid of relative and fixed positioning.',
-        properties: ['position'],
-        browserSupport: { chrome: '56', edge: '16', firefox: '32', safari: '13' }
-      },
-      {
-        id: 'css-container-queries',
-        name: 'CSS Container Queries',
-        status: 'limited',
-        since: '2023-02',
-        description: 'Container queries allow you to apply styles based on the size of a container.',
-        properties: ['container-type', 'container-name', 'container'],
-        browserSupport: { chrome: '105', edge: '105', firefox: '110', safari: '16' }
-      },
-      {
-        id: 'css-backdrop-filter',
-        name: 'CSS Backdrop Filter',
-        status: 'baseline',
-        since: '2022-03',
-        description: 'Applies graphical effects to the area behind an element.',
-        properties: ['backdrop-filter'],
-        browserSupport: { chrome: '76', edge: '79', firefox: '103', safari: '9' }
-      },
-      {
-        id: 'css-color-oklch',
-        name: 'CSS OKLCH Colors',
-        status: 'limited',
-        since: '2023-09',
-        description: 'The oklch() color function represents colors in a perceptually uniform color space.',
-        properties: ['color'],
-        browserSupport: { chrome: '111', edge: '111', firefox: '113', safari: '16.4' }
-      }
-    ];
-  
-    // NEW: Mock JavaScript API features
-    const mockJSFeatures: JSFeature[] = [
-      {
-        id: 'fetch-api',
-        name: 'Fetch API',
-        status: 'baseline',
-        since: '2017-03',
-        description: 'The Fetch API provides a modern interface for fetching resources across the network.',
-        api: 'fetch',
-        methods: ['fetch', 'Response', 'Request', 'Headers'],
-        browserSupport: { chrome: '42', edge: '14', firefox: '39', safari: '10.1' }
-      },
-      {
-        id: 'promises',
-        name: 'JavaScript Promises',
-        status: 'baseline',
-        since: '2016-09',
-        description: 'Promises represent the eventual completion or failure of an asynchronous operation.',
-        api: 'Promise',
-        methods: ['then', 'catch', 'finally', 'all', 'race'],
-        browserSupport: { chrome: '32', edge: '12', firefox: '29', safari: '8' }
-      },
-      {
-        id: 'async-await',
-        name: 'Async/Await',
-        status: 'baseline',
-        since: '2017-06',
-        description: 'Async functions enable writing promise-based code as if it were synchronous.',
-        api: 'async',
-        methods: ['async', 'await'],
-        browserSupport: { chrome: '55', edge: '15', firefox: '52', safari: '10.1' }
-      },
-      {
-        id: 'intersection-observer',
-        name: 'Intersection Observer',
-        status: 'baseline',
-        since: '2019-09',
-        description: 'Provides a way to asynchronously observe changes in the intersection of a target element.',
-        api: 'IntersectionObserver',
-        methods: ['observe', 'unobserve', 'disconnect'],
-        browserSupport: { chrome: '51', edge: '15', firefox: '55', safari: '12.1' }
-      },
-      {
-        id: 'resize-observer',
-        name: 'Resize Observer',
-        status: 'baseline',
-        since: '2020-07',
-        description: 'Reports changes to the dimensions of an element\'s content or border box.',
-        api: 'ResizeObserver',
-        methods: ['observe', 'unobserve', 'disconnect'],
-        browserSupport: { chrome: '64', edge: '79', firefox: '69', safari: '13.1' }
-      },
-      {
-        id: 'mutation-observer',
-        name: 'Mutation Observer',
-        status: 'baseline',
-        since: '2015-07',
-        description: 'Provides the ability to watch for changes being made to the DOM tree.',
-        api: 'MutationObserver',
-        methods: ['observe', 'disconnect', 'takeRecords'],
-        browserSupport: { chrome: '26', edge: '12', firefox: '14', safari: '7' }
-      },
-      {
-        id: 'local-storage',
-        name: 'Local Storage',
-        status: 'baseline',
-        since: '2015-07',
-        description: 'Allows storing key-value pairs in a web browser with no expiration date.',
-        api: 'localStorage',
-        methods: ['getItem', 'setItem', 'removeItem', 'clear'],
-        browserSupport: { chrome: '4', edge: '12', firefox: '3.5', safari: '4' }
-      },
-      {
-        id: 'web-crypto',
-        name: 'Web Crypto API',
-        status: 'baseline',
-        since: '2017-09',
-        description: 'Provides cryptographic operations in web applications.',
-        api: 'crypto',
-        methods: ['subtle', 'getRandomValues'],
-        browserSupport: { chrome: '37', edge: '12', firefox: '34', safari: '11' }
-      },
-      {
-        id: 'broadcast-channel',
-        name: 'Broadcast Channel',
-        status: 'baseline',
-        since: '2022-03',
-        description: 'Allows communication between browsing contexts (windows, tabs, iframes).',
-        api: 'BroadcastChannel',
-        methods: ['postMessage', 'close'],
-        browserSupport: { chrome: '54', edge: '79', firefox: '38', safari: '15.4' }
-      },
-      {
-        id: 'web-share-api',
-        name: 'Web Share API',
-        status: 'limited',
-        since: '2023-03',
-        description: 'Enables sharing of text, URLs, and files to user-selected share targets.',
-        api: 'navigator.share',
-        methods: ['share', 'canShare'],
-        browserSupport: { chrome: '89', edge: '93', firefox: '71', safari: '12.1' }
-      },
-      {
-        id: 'view-transitions',
-        name: 'View Transitions API',
-        status: 'limited',
-        since: '2024-01',
-        description: 'Provides a mechanism for easily creating animated transitions between different DOM states.',
-        api: 'document.startViewTransition',
-        methods: ['startViewTransition'],
-        browserSupport: { chrome: '111', edge: '111', firefox: 'No', safari: '18' }
-      }
-    ];
-  
-    // Index CSS features by property name
-    mockCSSFeatures.forEach(feature => {
-      feature.properties.forEach(prop => {
-        this.cssFeatures.set(prop, feature);
-      });
-    });
-  
-    // Index JS features by API name
-    mockJSFeatures.forEach(feature => {
-      this.jsFeatures.set(feature.api, feature);
-      // Also index by each method for detailed detection
-      if (feature.methods) {
-        feature.methods.forEach(method => {
-          this.jsFeatures.set(method, feature);
-        });
-      }
-    });
-  
-    console.log(`Mock data created: ${this.cssFeatures.size} CSS properties, ${mockJSFeatures.length} JS APIs indexed`);
+  public useFeatures(cssFeatures: CSSFeature[], jsFeatures: JSFeature[]): void {
+    this.index = FeatureIndex.fromFeatures(cssFeatures, jsFeatures);
     this.lastUpdate = new Date();
   }
 }
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { CSSUsage, FeatureMatch, SourceRange, analyzeSource } from '@baseline/core';
+import { BaselineDataProvider } from './baselineData';
+import { CSS_MIGRATIONS } from './cssMigrations';
+
+/**
+ * Quick fixes for CSS that is not Baseline (or not supported by the
+ * configured targets): declare a fallback first, wrap the rule in
+ * `@supports`, or ignore the line
+ */
+export class CSSCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private dataProvider: BaselineDataProvider;
+
+  constructor(dataProvider: BaselineDataProvider) {
+    this.dataProvider = dataProvider;
+  }
+
+  public static register(dataProvider: BaselineDataProvider): vscode.Disposable {
+    return vscode.languages.registerCodeActionsProvider(
+      [{ language: 'css' }, { language: 'scss' }, { language: 'less' }],
+      new CSSCodeActionProvider(dataProvider),
+      { providedCodeActionKinds: CSSCodeActionProvider.providedCodeActionKinds }
+    );
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const text = document.getText();
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+
+    const matches = analyzeSource(text, 'css', this.dataProvider.getIndex(), this.dataProvider.getTargets(document.uri), document.fileName)
+      .filter(match => match.status !== 'baseline' && !match.guarded && match.usage.start <= end && match.usage.end >= start);
+
+    const actions = new Map<string, vscode.CodeAction>();
+    const addAction = (action: vscode.CodeAction | undefined, match: FeatureMatch) => {
+      if (action && !actions.has(action.title)) {
+        action.diagnostics = this.findDiagnostics(document, context, match);
+        actions.set(action.title, action);
+      }
+    };
+
+    for (const match of matches) {
+      addAction(this.createFallbackAction(document, match), match);
+    }
+    for (const match of matches) {
+      addAction(this.createSupportsAction(document, match), match);
+    }
+    for (const match of matches) {
+      addAction(this.createIgnoreAction(document, match), match);
+    }
+
+    return Array.from(actions.values());
+  }
+
+  /**
+   * Declare a fallback value right before the declaration, e.g. an rgb()
+   * color ahead of an oklch() one
+   */
+  private createFallbackAction(document: vscode.TextDocument, match: FeatureMatch): vscode.CodeAction | undefined {
+    const usage = match.usage as CSSUsage;
+    const fallback = usage.property && usage.declaration && CSS_MIGRATIONS[match.feature.id]?.fallback?.(usage.value);
+    if (!fallback || !usage.declaration) {
+      return undefined;
+    }
+
+    const declarationStart = document.positionAt(usage.declaration.start);
+    const lineStart = document.lineAt(declarationStart.line).text.slice(0, declarationStart.character);
+    const declaration = `${usage.property}: ${fallback};`;
+
+    // Keep one declaration per line when the original is on a line of its own
+    const insertText = /^\s*$/.test(lineStart) ? `${declaration}\n${lineStart}` : `${declaration} `;
+
+    const action = new vscode.CodeAction(`Add fallback: ${declaration}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, declarationStart, insertText);
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Wrap the enclosing rule in `@supports` for the declaration or selector
+   */
+  private createSupportsAction(document: vscode.TextDocument, match: FeatureMatch): vscode.CodeAction | undefined {
+    const usage = match.usage as CSSUsage;
+    const condition = this.getSupportsCondition(usage);
+    if (!condition || !usage.rule) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(`Wrap rule in @supports ${condition}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, this.toRange(document, usage.rule), this.wrapRule(document, usage.rule, condition));
+    return action;
+  }
+
+  /**
+   * Append a `baseline-ignore` comment naming the property or selector
+   */
+  private createIgnoreAction(document: vscode.TextDocument, match: FeatureMatch): vscode.CodeAction | undefined {
+    const usage = match.usage as CSSUsage;
+    const name = usage.property || usage.name;
+    const line = document.lineAt(usage.line);
+
+    const action = new vscode.CodeAction(`Ignore ${name} on this line`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, line.range.end, ` /* baseline-ignore ${name} */`);
+    return action;
+  }
+
+  private getSupportsCondition(usage: CSSUsage): string | undefined {
+    if (usage.property) {
+      return `(${usage.property}: ${usage.value})`;
+    }
+    if (usage.kind === 'selector' && usage.name !== '&') {
+      return `selector(${usage.value.trim()})`;
+    }
+    return undefined;
+  }
+
+  private wrapRule(document: vscode.TextDocument, rule: SourceRange, condition: string): string {
+    const ruleStart = document.positionAt(rule.start);
+    const indent = document.lineAt(ruleStart.line).text.slice(0, ruleStart.character).match(/^\s*/)![0];
+    const ruleLines = document.getText(this.toRange(document, rule)).split('\n');
+
+    const body = ruleLines.map((line, i) => (i === 0 ? `${indent}  ${line}` : line.length > 0 ? `  ${line}` : line));
+    return `@supports ${condition} {\n${body.join('\n')}\n${indent}}`;
+  }
+
+  /**
+   * Baseline diagnostics the action resolves, so it shows up under them
+   */
+  private findDiagnostics(
+    document: vscode.TextDocument,
+    context: vscode.CodeActionContext,
+    match: FeatureMatch
+  ): vscode.Diagnostic[] {
+    const usageRange = this.toRange(document, match.usage);
+    return context.diagnostics.filter(diagnostic => {
+      const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+      return diagnostic.source === 'Baseline' && code === match.feature.id && !!diagnostic.range.intersection(usageRange);
+    });
+  }
+
+  private toRange(document: vscode.TextDocument, range: SourceRange): vscode.Range {
+    return new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+  }
+}
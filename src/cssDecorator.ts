@@ -1,21 +1,31 @@
 import * as vscode from 'vscode';
-import { BaselineDataProvider, CSSFeature } from './baselineData';
-import { CSSParser } from './utils/parser';
-import { TooltipBuilder } from './tooltipBuilder';
+import { CSSFeature, FeatureMatch, analyzeSource, detectCSS } from '@baseline/core';
+import { BaselineDataProvider } from './baselineData';
+import { BaselineDiagnostics } from './diagnostics';
+import { BadgeStatus, TooltipBuilder } from './tooltipBuilder';
+
+// Badge severity, so a line shows its least supported feature
+const STATUS_RANK: Record<BadgeStatus, number> = {
+  'baseline': 0,
+  'guarded': 1,
+  'limited': 2,
+  'not-baseline': 3
+};
 
 export class CSSDecorator {
   private dataProvider: BaselineDataProvider;
-  private parser: CSSParser;
+  private diagnostics: BaselineDiagnostics;
   
   private baselineDecoration: vscode.TextEditorDecorationType;
+  private guardedDecoration: vscode.TextEditorDecorationType;
   private limitedDecoration: vscode.TextEditorDecorationType;
   private nonBaselineDecoration: vscode.TextEditorDecorationType;
 
   private hoverProvider: vscode.Disposable | undefined;
 
-  constructor(dataProvider: BaselineDataProvider) {
+  constructor(dataProvider: BaselineDataProvider, diagnostics: BaselineDiagnostics) {
     this.dataProvider = dataProvider;
-    this.parser = new CSSParser();
+    this.diagnostics = diagnostics;
     
     console.log('🎨 CSSDecorator: Initializing decorations...');
     
@@ -30,6 +40,17 @@ export class CSSDecorator {
       rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
     });
 
+    // Not Baseline, but only used behind a feature check
+    this.guardedDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        contentText: ' ◐ Progressively enhanced',
+        color: new vscode.ThemeColor('charts.blue'),
+        fontWeight: 'bold',
+        margin: '0 0 0 2em'
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+    });
+
     this.limitedDecoration = vscode.window.createTextEditorDecorationType({
       after: {
         contentText: ' ⚠ Limited',
@@ -64,40 +85,50 @@ export class CSSDecorator {
       return;
     }
 
-    console.log('📝 CSSDecorator: Parsing CSS properties...');
-    const text = document.getText();
-    const properties = this.parser.extractCSSProperties(text, document);
+    console.log('📝 CSSDecorator: Parsing CSS declarations...');
+    // With targets configured, badges say whether the targets support a feature
+    const targets = this.dataProvider.getTargets(document.uri);
+    const matches = analyzeSource(document.getText(), 'css', this.dataProvider.getIndex(), targets);
 
-    console.log(`🔢 CSSDecorator: Found ${properties.length} CSS properties`);
+    console.log(`🔢 CSSDecorator: Found ${matches.length} CSS feature usages`);
 
     const baselineDecorations: vscode.DecorationOptions[] = [];
+    const guardedDecorations: vscode.DecorationOptions[] = [];
     const limitedDecorations: vscode.DecorationOptions[] = [];
     const nonBaselineDecorations: vscode.DecorationOptions[] = [];
 
-    for (const prop of properties) {
-      console.log(`  - Property: ${prop.name}`);
-      const feature = this.dataProvider.getCSSFeature(prop.name);
-      
-      if (!feature) {
-        console.log(`    ⚠️ No Baseline data for: ${prop.name}`);
-        continue;
-      }
+    // Properties, values, functions and units on one line share a badge
+    const lineMatches = new Map<number, FeatureMatch>();
 
-      console.log(`    ✓ Found feature: ${feature.name}, status: ${feature.status}`);
+    for (const match of matches) {
+      console.log(`  - ${match.usage.name}: ${match.feature.name}, status: ${match.status}`);
 
+      const current = lineMatches.get(match.usage.line);
+      if (!current || STATUS_RANK[TooltipBuilder.getBadgeStatus(match)] > STATUS_RANK[TooltipBuilder.getBadgeStatus(current)]) {
+        lineMatches.set(match.usage.line, match);
+      }
+    }
+
+    for (const [lineNumber, match] of lineMatches) {
+      const { feature } = match;
+      const status = TooltipBuilder.getBadgeStatus(match);
       // Create decoration at END OF LINE, not at property position
-      const line = document.lineAt(prop.line);
+      const line = document.lineAt(lineNumber);
       const endOfLine = line.range.end;
-      
+
       const decoration: vscode.DecorationOptions = {
         range: new vscode.Range(endOfLine, endOfLine), // Zero-width range at end of line
-        hoverMessage: TooltipBuilder.createCSSTooltip(feature) // Use new tooltip builder
+        hoverMessage: TooltipBuilder.createCSSTooltip(feature as CSSFeature, targets), // Use new tooltip builder
+        renderOptions: targets ? { after: { contentText: TooltipBuilder.getTargetLabel(status) } } : undefined
       };
 
-      switch (feature.status) {
+      switch (status) {
         case 'baseline':
           baselineDecorations.push(decoration);
           break;
+        case 'guarded':
+          guardedDecorations.push(decoration);
+          break;
         case 'limited':
           limitedDecorations.push(decoration);
           break;
@@ -107,17 +138,17 @@ export class CSSDecorator {
       }
     }
 
-    console.log(`📊 Applying decorations: ${baselineDecorations.length} baseline, ${limitedDecorations.length} limited, ${nonBaselineDecorations.length} non-baseline`);
+    console.log(`📊 Applying decorations: ${baselineDecorations.length} baseline, ${guardedDecorations.length} guarded, ${limitedDecorations.length} limited, ${nonBaselineDecorations.length} non-baseline`);
+
+    // The same findings feed the Problems panel
+    this.diagnostics.publish(document, matches);
 
     editor.setDecorations(this.baselineDecoration, baselineDecorations);
+    editor.setDecorations(this.guardedDecoration, guardedDecorations);
     editor.setDecorations(this.limitedDecoration, limitedDecorations);
     editor.setDecorations(this.nonBaselineDecoration, nonBaselineDecorations);
     
     console.log('✅ CSSDecorator: Decorations applied');
-    
-    vscode.window.showInformationMessage(
-      `Baseline: Found ${properties.length} properties (${baselineDecorations.length} baseline-ready)`
-    );
   }
 
   private isCSSDocument(document: vscode.TextDocument): boolean {
@@ -157,23 +188,28 @@ export class CSSDecorator {
     document: vscode.TextDocument,
     position: vscode.Position
   ): vscode.Hover | undefined {
-    const range = document.getWordRangeAtPosition(position, /[\w-]+/);
-    if (!range) {
-      return undefined;
-    }
+    // Hover the exact property, value, at-rule or selector under the cursor
+    const offset = document.offsetAt(position);
+    const index = this.dataProvider.getIndex();
 
-    const word = document.getText(range);
-    const feature = this.dataProvider.getCSSFeature(word);
+    for (const usage of detectCSS(document.getText())) {
+      if (usage.start > offset || offset > usage.end) {
+        continue;
+      }
 
-    if (!feature) {
-      return undefined;
+      const feature = index.getCSSFeatureForUsage(usage);
+      if (feature) {
+        const range = new vscode.Range(document.positionAt(usage.start), document.positionAt(usage.end));
+        return new vscode.Hover(TooltipBuilder.createCSSTooltip(feature, this.dataProvider.getTargets(document.uri)), range);
+      }
     }
 
-    return new vscode.Hover(TooltipBuilder.createCSSTooltip(feature), range);
+    return undefined;
   }
 
   public dispose(): void {
     this.baselineDecoration.dispose();
+    this.guardedDecoration.dispose();
     this.limitedDecoration.dispose();
     this.nonBaselineDecoration.dispose();
     
@@ -0,0 +1,127 @@
+import { okColorToRgb } from './utils/color';
+
+/**
+ * What we know about moving off a CSS feature: the tips shown in tooltips
+ * and, where there is one, a fallback value the quick fixes can declare
+ * ahead of the original for browsers without support
+ */
+export interface CSSMigration {
+  tips: string[];
+  fallback?: (value: string) => string | undefined;
+}
+
+export const DEFAULT_CSS_TIPS = [
+  'Test in your target browsers',
+  'Provide appropriate fallbacks',
+  'Consider feature detection'
+];
+
+export const CSS_MIGRATIONS: Record<string, CSSMigration> = {
+  'container-queries': {
+    tips: [
+      'Use `@supports` to detect support',
+      'Provide fallback layouts using media queries',
+      'Consider using PostCSS plugin for better support'
+    ]
+  },
+  'oklab': {
+    tips: [
+      'Provide fallback colors using standard formats',
+      'Use progressive enhancement',
+      'Test thoroughly in target browsers'
+    ],
+    fallback: value => replaceFunctions(value, ['oklch', 'oklab'], (name, args) => okColorToRgb(name as 'oklch' | 'oklab', args))
+  },
+  'light-dark': {
+    tips: [
+      'Declare the light color first for browsers without `light-dark()`',
+      'Pair with `color-scheme` so the dark color applies'
+    ],
+    fallback: value => replaceFunctions(value, ['light-dark'], (_name, args) => splitArguments(args)[0])
+  },
+  'viewport-unit-variants': {
+    tips: [
+      'Declare the size in `vh`/`vw` first',
+      'Dynamic units avoid jumps when mobile toolbars collapse'
+    ],
+    fallback: value => {
+      const converted = value.replace(/(\d)[dsl]v(h|w|i|b|min|max)\b/g, '$1v$2');
+      return converted !== value ? converted : undefined;
+    }
+  }
+};
+
+/**
+ * Replace every call to one of the named functions. Returns undefined when
+ * nothing was replaced or a call could not be converted.
+ */
+function replaceFunctions(
+  value: string,
+  names: string[],
+  convert: (name: string, args: string) => string | undefined
+): string | undefined {
+  const pattern = new RegExp(`\\b(${names.join('|')})\\(`, 'gi');
+  let result = '';
+  let lastIndex = 0;
+  let replaced = false;
+
+  for (const match of value.matchAll(pattern)) {
+    if (match.index! < lastIndex) {
+      continue;
+    }
+    const argsStart = match.index! + match[0].length;
+    const argsEnd = findClosingParen(value, argsStart);
+    if (argsEnd === -1) {
+      return undefined;
+    }
+
+    const converted = convert(match[1].toLowerCase(), value.slice(argsStart, argsEnd).trim());
+    if (converted === undefined) {
+      return undefined;
+    }
+
+    result += value.slice(lastIndex, match.index) + converted;
+    lastIndex = argsEnd + 1;
+    replaced = true;
+  }
+
+  return replaced ? result + value.slice(lastIndex) : undefined;
+}
+
+function findClosingParen(value: string, from: number): number {
+  let depth = 1;
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '(') {
+      depth++;
+    } else if (value[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split function arguments on top-level commas
+ */
+function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of args) {
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
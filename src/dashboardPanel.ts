@@ -1,9 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { SourceAnalysis, SuppressionKind, analyzeSourceWithSuppressions, calculateScore, countByStatus } from '@baseline/core';
 import { BaselineDataProvider } from './baselineData';
-import { CSSParser } from './utils/parser';
-import { JSParser } from './utils/jsParser';
 
 interface ProjectStats {
   totalFiles: number;
@@ -12,12 +11,26 @@ interface ProjectStats {
   totalCSSProperties: number;
   totalJSAPIs: number;
   baselineCSSCount: number;
+  guardedCSSCount: number;
   limitedCSSCount: number;
   nonBaselineCSSCount: number;
   baselineJSCount: number;
+  guardedJSCount: number;
   limitedJSCount: number;
   nonBaselineJSCount: number;
   baselineScore: number;
+  suppressions: SuppressionSummary[];
+}
+
+// A suppression comment as listed on the dashboard
+interface SuppressionSummary {
+  uri: string;
+  file: string; // workspace-relative path
+  line: number; // zero-based
+  kind: SuppressionKind;
+  names: string[];
+  reason?: string;
+  features: string[]; // names of the features it silenced
 }
 
 export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
@@ -25,16 +38,12 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
   
   private _view?: vscode.WebviewView;
   private dataProvider: BaselineDataProvider;
-  private cssParser: CSSParser;
-  private jsParser: JSParser;
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
     dataProvider: BaselineDataProvider
   ) {
     this.dataProvider = dataProvider;
-    this.cssParser = new CSSParser();
-    this.jsParser = new JSParser();
   }
 
   public resolveWebviewView(
@@ -60,6 +69,9 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
         case 'analyzeProject':
           await this.analyzeProject();
           break;
+        case 'openSuppression':
+          await this.openLocation(data.uri, data.line);
+          break;
       }
     });
 
@@ -84,14 +96,15 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
     let totalFiles = 0;
     let cssFiles = 0;
     let jsFiles = 0;
-    let totalCSSProperties = 0;
-    let totalJSAPIs = 0;
     let baselineCSSCount = 0;
+    let guardedCSSCount = 0;
     let limitedCSSCount = 0;
     let nonBaselineCSSCount = 0;
     let baselineJSCount = 0;
+    let guardedJSCount = 0;
     let limitedJSCount = 0;
     let nonBaselineJSCount = 0;
+    const suppressions: SuppressionSummary[] = [];
 
     // Find all CSS and JS files
     const cssPattern = '**/*.{css,scss,less}';
@@ -104,23 +117,20 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
     jsFiles = jsUris.length;
     totalFiles = cssFiles + jsFiles;
 
+    const index = this.dataProvider.getIndex();
+
     // Analyze CSS files
     for (const uri of cssUris.slice(0, 50)) { // Limit to 50 files for performance
       try {
         const document = await vscode.workspace.openTextDocument(uri);
-        const text = document.getText();
-        const properties = this.cssParser.extractCSSProperties(text, document);
-        
-        totalCSSProperties += properties.length;
-
-        for (const prop of properties) {
-          const feature = this.dataProvider.getCSSFeature(prop.name);
-          if (feature) {
-            if (feature.status === 'baseline') baselineCSSCount++;
-            else if (feature.status === 'limited') limitedCSSCount++;
-            else nonBaselineCSSCount++;
-          }
-        }
+        const analysis = analyzeSourceWithSuppressions(document.getText(), 'css', index, this.dataProvider.getTargets(uri));
+        const counts = countByStatus(analysis.matches);
+        suppressions.push(...this.summarizeSuppressions(uri, analysis));
+
+        baselineCSSCount += counts.baseline;
+        guardedCSSCount += counts.guarded;
+        limitedCSSCount += counts.limited;
+        nonBaselineCSSCount += counts.nonBaseline;
       } catch (error) {
         console.error('Error analyzing CSS file:', error);
       }
@@ -130,31 +140,28 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
     for (const uri of jsUris.slice(0, 50)) { // Limit to 50 files for performance
       try {
         const document = await vscode.workspace.openTextDocument(uri);
-        const text = document.getText();
-        const apis = this.jsParser.extractAPIUsage(text, document);
-        
-        totalJSAPIs += apis.length;
-
-        const seenOnLine = new Set<number>();
-        for (const api of apis) {
-          if (seenOnLine.has(api.line)) continue;
-          seenOnLine.add(api.line);
-
-          const feature = this.dataProvider.getJSFeature(api.api);
-          if (feature) {
-            if (feature.status === 'baseline') baselineJSCount++;
-            else if (feature.status === 'limited') limitedJSCount++;
-            else nonBaselineJSCount++;
-          }
-        }
+        const analysis = analyzeSourceWithSuppressions(document.getText(), 'js', index, this.dataProvider.getTargets(uri), document.fileName);
+        const counts = countByStatus(analysis.matches);
+        suppressions.push(...this.summarizeSuppressions(uri, analysis));
+
+        baselineJSCount += counts.baseline;
+        guardedJSCount += counts.guarded;
+        limitedJSCount += counts.limited;
+        nonBaselineJSCount += counts.nonBaseline;
       } catch (error) {
         console.error('Error analyzing JS file:', error);
       }
     }
 
-    const totalBaseline = baselineCSSCount + baselineJSCount;
-    const totalFeatures = totalCSSProperties + totalJSAPIs;
-    const baselineScore = totalFeatures > 0 ? Math.round((totalBaseline / totalFeatures) * 100) : 100;
+    // Only usages with Baseline data count towards the totals and score
+    const totalCSSProperties = baselineCSSCount + guardedCSSCount + limitedCSSCount + nonBaselineCSSCount;
+    const totalJSAPIs = baselineJSCount + guardedJSCount + limitedJSCount + nonBaselineJSCount;
+    const baselineScore = calculateScore({
+      baseline: baselineCSSCount + baselineJSCount,
+      guarded: guardedCSSCount + guardedJSCount,
+      limited: limitedCSSCount + limitedJSCount,
+      nonBaseline: nonBaselineCSSCount + nonBaselineJSCount
+    });
 
     return {
       totalFiles,
@@ -163,15 +170,36 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       totalCSSProperties,
       totalJSAPIs,
       baselineCSSCount,
+      guardedCSSCount,
       limitedCSSCount,
       nonBaselineCSSCount,
       baselineJSCount,
+      guardedJSCount,
       limitedJSCount,
       nonBaselineJSCount,
-      baselineScore
+      baselineScore,
+      suppressions
     };
   }
 
+  private summarizeSuppressions(uri: vscode.Uri, { suppressions }: SourceAnalysis): SuppressionSummary[] {
+    return suppressions.map(({ kind, names, reason, line, suppressed }) => ({
+      uri: uri.toString(),
+      file: vscode.workspace.asRelativePath(uri),
+      line,
+      kind,
+      names,
+      reason,
+      features: Array.from(new Set(suppressed.map(match => match.feature.name)))
+    }));
+  }
+
+  private async openLocation(uri: string, line: number) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+    const position = new vscode.Position(line, 0);
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+  }
+
   private getEmptyStats(): ProjectStats {
     return {
       totalFiles: 0,
@@ -180,12 +208,15 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       totalCSSProperties: 0,
       totalJSAPIs: 0,
       baselineCSSCount: 0,
+      guardedCSSCount: 0,
       limitedCSSCount: 0,
       nonBaselineCSSCount: 0,
       baselineJSCount: 0,
+      guardedJSCount: 0,
       limitedJSCount: 0,
       nonBaselineJSCount: 0,
-      baselineScore: 100
+      baselineScore: 100,
+      suppressions: []
     };
   }
 
@@ -325,6 +356,11 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       color: white;
     }
 
+    .status-guarded {
+      background: var(--vscode-charts-blue);
+      color: white;
+    }
+
     .status-limited {
       background: var(--vscode-charts-yellow);
       color: black;
@@ -366,6 +402,10 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       background: var(--vscode-charts-green);
     }
 
+    .dot-guarded {
+      background: var(--vscode-charts-blue);
+    }
+
     .dot-limited {
       background: var(--vscode-charts-yellow);
     }
@@ -378,6 +418,29 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       font-weight: 600;
     }
 
+    .suppression {
+      padding: 6px 0;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .suppression:hover .suppression-location {
+      text-decoration: underline;
+    }
+
+    .suppression-location {
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .suppression-reason {
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .suppression-reason.missing {
+      color: var(--vscode-charts-yellow);
+    }
+
     button {
       width: 100%;
       padding: 8px 16px;
@@ -438,7 +501,10 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       }
     });
 
+    let suppressions = [];
+
     function updateDashboard(stats) {
+      suppressions = stats.suppressions;
       const content = document.getElementById('content');
       
       if (stats.totalFiles === 0) {
@@ -453,11 +519,13 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
 
       const scoreClass = stats.baselineScore >= 80 ? '' : stats.baselineScore >= 60 ? 'warning' : 'error';
       const totalBaseline = stats.baselineCSSCount + stats.baselineJSCount;
+      const totalGuarded = stats.guardedCSSCount + stats.guardedJSCount;
       const totalLimited = stats.limitedCSSCount + stats.limitedJSCount;
       const totalNonBaseline = stats.nonBaselineCSSCount + stats.nonBaselineJSCount;
       const totalFeatures = stats.totalCSSProperties + stats.totalJSAPIs;
 
       const baselinePercent = totalFeatures > 0 ? (totalBaseline / totalFeatures) * 100 : 0;
+      const guardedPercent = totalFeatures > 0 ? (totalGuarded / totalFeatures) * 100 : 0;
       const limitedPercent = totalFeatures > 0 ? (totalLimited / totalFeatures) * 100 : 0;
       const nonBaselinePercent = totalFeatures > 0 ? (totalNonBaseline / totalFeatures) * 100 : 0;
 
@@ -490,6 +558,7 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
         <h2>🎨 CSS Features</h2>
         <div class="status-bar">
           \${baselinePercent > 0 ? \`<div class="status-segment status-baseline" style="width: \${stats.baselineCSSCount > 0 ? (stats.baselineCSSCount / stats.totalCSSProperties * 100) : 0}%">\${stats.baselineCSSCount}</div>\` : ''}
+          \${guardedPercent > 0 ? \`<div class="status-segment status-guarded" style="width: \${stats.guardedCSSCount > 0 ? (stats.guardedCSSCount / stats.totalCSSProperties * 100) : 0}%">\${stats.guardedCSSCount}</div>\` : ''}
           \${limitedPercent > 0 ? \`<div class="status-segment status-limited" style="width: \${stats.limitedCSSCount > 0 ? (stats.limitedCSSCount / stats.totalCSSProperties * 100) : 0}%">\${stats.limitedCSSCount}</div>\` : ''}
           \${nonBaselinePercent > 0 ? \`<div class="status-segment status-non-baseline" style="width: \${stats.nonBaselineCSSCount > 0 ? (stats.nonBaselineCSSCount / stats.totalCSSProperties * 100) : 0}%">\${stats.nonBaselineCSSCount}</div>\` : ''}
         </div>
@@ -501,6 +570,13 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
             </div>
             <div class="breakdown-value">\${stats.baselineCSSCount}</div>
           </div>
+          <div class="breakdown-item">
+            <div class="breakdown-label">
+              <div class="breakdown-dot dot-guarded"></div>
+              <span>Progressively Enhanced</span>
+            </div>
+            <div class="breakdown-value">\${stats.guardedCSSCount}</div>
+          </div>
           <div class="breakdown-item">
             <div class="breakdown-label">
               <div class="breakdown-dot dot-limited"></div>
@@ -520,6 +596,7 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
         <h2>⚡ JavaScript APIs</h2>
         <div class="status-bar">
           \${stats.baselineJSCount > 0 ? \`<div class="status-segment status-baseline" style="width: \${(stats.baselineJSCount / stats.totalJSAPIs * 100)}%">\${stats.baselineJSCount}</div>\` : ''}
+          \${stats.guardedJSCount > 0 ? \`<div class="status-segment status-guarded" style="width: \${(stats.guardedJSCount / stats.totalJSAPIs * 100)}%">\${stats.guardedJSCount}</div>\` : ''}
           \${stats.limitedJSCount > 0 ? \`<div class="status-segment status-limited" style="width: \${(stats.limitedJSCount / stats.totalJSAPIs * 100)}%">\${stats.limitedJSCount}</div>\` : ''}
           \${stats.nonBaselineJSCount > 0 ? \`<div class="status-segment status-non-baseline" style="width: \${(stats.nonBaselineJSCount / stats.totalJSAPIs * 100)}%">\${stats.nonBaselineJSCount}</div>\` : ''}
         </div>
@@ -531,6 +608,13 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
             </div>
             <div class="breakdown-value">\${stats.baselineJSCount}</div>
           </div>
+          <div class="breakdown-item">
+            <div class="breakdown-label">
+              <div class="breakdown-dot dot-guarded"></div>
+              <span>Progressively Enhanced</span>
+            </div>
+            <div class="breakdown-value">\${stats.guardedJSCount}</div>
+          </div>
           <div class="breakdown-item">
             <div class="breakdown-label">
               <div class="breakdown-dot dot-limited"></div>
@@ -547,6 +631,17 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
           </div>
         </div>
 
+        \${stats.suppressions.length > 0 ? \`
+        <h2>🔕 Suppressions (\${stats.suppressions.length})</h2>
+        <div>
+          \${stats.suppressions.map((s, i) => \`
+          <div class="suppression" onclick="openSuppression(\${i})">
+            <div class="suppression-location">\${escapeHtml(s.file)}:\${s.line + 1}</div>
+            <div><code>\${escapeHtml(['baseline-' + s.kind, ...s.names].join(' '))}</code> · \${escapeHtml(s.features.join(', ') || 'nothing silenced')}</div>
+            <div class="suppression-reason \${s.reason ? '' : 'missing'}">\${escapeHtml(s.reason || 'No reason given')}</div>
+          </div>\`).join('')}
+        </div>\` : ''}
+
         <button onclick="refresh()">🔄 Refresh Analysis</button>
         <button onclick="analyzeProject()">🔍 Deep Scan Project</button>
       \`;
@@ -560,6 +655,15 @@ export class BaselineDashboardPanel implements vscode.WebviewViewProvider {
       vscode.postMessage({ type: 'analyzeProject' });
     }
 
+    function openSuppression(index) {
+      const { uri, line } = suppressions[index];
+      vscode.postMessage({ type: 'openSuppression', uri, line });
+    }
+
+    function escapeHtml(text) {
+      return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
     // Request initial data
     vscode.postMessage({ type: 'refresh' });
   </script>
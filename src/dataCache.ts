@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CSSFeature, JSFeature } from './baselineData';
+
+// Bump whenever the cached feature shape or indexing rules change
+export const CACHE_SCHEMA_VERSION = 4;
+
+export interface CachedFeatureData {
+  schemaVersion: number;
+  webFeaturesVersion: string;
+  lastUpdate: string;
+  checksum: string;
+  css: Record<string, CSSFeature>;
+  js: Record<string, JSFeature>;
+}
+
+export type CacheLoadResult =
+  | { status: 'valid'; data: CachedFeatureData }
+  | { status: 'missing' | 'outdated' | 'corrupt'; reason: string };
+
+/**
+ * Versioned on-disk cache of the processed web-features index, kept in the
+ * extension's global storage
+ */
+export class BaselineDataCache {
+  private cachePath: string;
+
+  constructor(storageDir: string) {
+    this.cachePath = path.join(storageDir, 'baseline-features.json');
+  }
+
+  public get filePath(): string {
+    return this.cachePath;
+  }
+
+  /**
+   * Read and validate the cache against the bundled web-features version
+   */
+  public load(expectedVersion: string): CacheLoadResult {
+    if (!fs.existsSync(this.cachePath)) {
+      return { status: 'missing', reason: 'No cache file' };
+    }
+
+    let data: CachedFeatureData;
+    try {
+      data = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+    } catch (error) {
+      return { status: 'corrupt', reason: `Unreadable cache: ${error}` };
+    }
+
+    if (!data || typeof data !== 'object' || typeof data.css !== 'object' || typeof data.js !== 'object') {
+      return { status: 'corrupt', reason: 'Cache is missing feature tables' };
+    }
+
+    if (data.checksum !== BaselineDataCache.checksum(data.css, data.js)) {
+      return { status: 'corrupt', reason: 'Checksum mismatch' };
+    }
+
+    if (isNaN(new Date(data.lastUpdate).getTime())) {
+      return { status: 'corrupt', reason: 'Invalid lastUpdate timestamp' };
+    }
+
+    if (data.schemaVersion !== CACHE_SCHEMA_VERSION) {
+      return { status: 'outdated', reason: `Schema ${data.schemaVersion} != ${CACHE_SCHEMA_VERSION}` };
+    }
+
+    if (data.webFeaturesVersion !== expectedVersion) {
+      return { status: 'outdated', reason: `web-features ${data.webFeaturesVersion} != ${expectedVersion}` };
+    }
+
+    return { status: 'valid', data };
+  }
+
+  /**
+   * Write the processed index, stamped with versions and a checksum
+   */
+  public save(
+    webFeaturesVersion: string,
+    css: Record<string, CSSFeature>,
+    js: Record<string, JSFeature>
+  ): CachedFeatureData {
+    const data: CachedFeatureData = {
+      schemaVersion: CACHE_SCHEMA_VERSION,
+      webFeaturesVersion,
+      lastUpdate: new Date().toISOString(),
+      checksum: BaselineDataCache.checksum(css, js),
+      css,
+      js
+    };
+
+    const dataDir = path.dirname(this.cachePath);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    // Write to a temp file first so a crash never leaves a half-written cache
+    const tempPath = `${this.cachePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, this.cachePath);
+
+    return data;
+  }
+
+  /**
+   * Remove the cache file, ignoring errors
+   */
+  public clear(): void {
+    try {
+      fs.rmSync(this.cachePath, { force: true });
+    } catch (error) {
+      console.error('Failed to remove Baseline cache:', error);
+    }
+  }
+
+  private static checksum(css: unknown, js: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ css, js }))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { BaselineStatus, BrowserTargets, FeatureMatch, LineMap, SourceLanguage, analyzeSource, languageForFile } from '@baseline/core';
+import { BaselineDataProvider } from './baselineData';
+
+export type SeverityName = 'error' | 'warning' | 'information' | 'hint' | 'none';
+
+// 'guarded' covers features that are not Baseline but only used behind a
+// feature check for them
+export type SeveritySettings = Record<BaselineStatus | 'guarded', SeverityName>;
+
+export const DEFAULT_SEVERITIES: SeveritySettings = {
+  'baseline': 'none',
+  'guarded': 'none',
+  'limited': 'warning',
+  'not-baseline': 'error'
+};
+
+const SEVERITY_LEVELS: Record<Exclude<SeverityName, 'none'>, vscode.DiagnosticSeverity> = {
+  'error': vscode.DiagnosticSeverity.Error,
+  'warning': vscode.DiagnosticSeverity.Warning,
+  'information': vscode.DiagnosticSeverity.Information,
+  'hint': vscode.DiagnosticSeverity.Hint
+};
+
+const CSS_LANGUAGES = ['css', 'scss', 'less', 'postcss'];
+const JS_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+
+// Files covered by the workspace scan, and folders it never looks in
+const SOURCE_GLOB = '**/*.{css,scss,less,js,jsx,ts,tsx,mjs,cjs}';
+const EXCLUDE_GLOB = '**/{node_modules,dist,build,out,.git}/**';
+
+/**
+ * Turn analysis matches into diagnostics. Statuses whose severity is
+ * 'none' are left out.
+ */
+export function createDiagnostics(
+  text: string,
+  matches: FeatureMatch[],
+  severities: SeveritySettings,
+  targets?: BrowserTargets
+): vscode.Diagnostic[] {
+  const lines = new LineMap(text);
+  const diagnostics: vscode.Diagnostic[] = [];
+
+  for (const match of matches) {
+    const severity = severities[match.guarded ? 'guarded' : match.status];
+    if (severity === 'none' || !SEVERITY_LEVELS[severity]) {
+      continue;
+    }
+
+    const { usage, feature } = match;
+    const end = lines.positionAt(usage.end);
+    const range = new vscode.Range(usage.line, usage.column, end.line, end.column);
+
+    const diagnostic = new vscode.Diagnostic(range, getMessage(match, targets), SEVERITY_LEVELS[severity]);
+    diagnostic.source = 'Baseline';
+    diagnostic.code = feature.mdn_url
+      ? { value: feature.id, target: vscode.Uri.parse(feature.mdn_url) }
+      : feature.id;
+    diagnostics.push(diagnostic);
+  }
+
+  return diagnostics;
+}
+
+function getMessage({ feature, status, guarded }: FeatureMatch, targets?: BrowserTargets): string {
+  if (guarded) {
+    return `${feature.name} is only used behind a feature check, so browsers without it are handled`;
+  }
+  if (targets) {
+    if (status === 'baseline') {
+      return `${feature.name} is supported by your targets`;
+    }
+    return `${feature.name} is not supported by all of your targets: ${targets.evaluate(feature).missing.join(', ')}`;
+  }
+
+  switch (status) {
+    case 'baseline':
+      return `${feature.name} is Baseline widely available`;
+    case 'limited':
+      return `${feature.name} is newly available${feature.lowDate ? ` since ${feature.lowDate}` : ''} and may not work in older browsers`;
+    default:
+      return `${feature.name} is not Baseline and has limited browser support`;
+  }
+}
+
+/**
+ * Publishes Baseline findings to the Problems panel: open documents as the
+ * decorators analyze them, and every other CSS and JS file in the workspace
+ * when `baseline.diagnostics.workspace` is on
+ */
+export class BaselineDiagnostics implements vscode.Disposable {
+  private dataProvider: BaselineDataProvider;
+  private collection: vscode.DiagnosticCollection;
+
+  constructor(dataProvider: BaselineDataProvider) {
+    this.dataProvider = dataProvider;
+    this.collection = vscode.languages.createDiagnosticCollection('baseline');
+  }
+
+  /**
+   * Replace the diagnostics of a document with the given matches
+   */
+  public publish(document: vscode.TextDocument, matches: FeatureMatch[]): void {
+    this.publishText(document.uri, document.getText(), matches);
+  }
+
+  /**
+   * Analyze a document that was not decorated, e.g. with badges turned off
+   */
+  public analyzeDocument(document: vscode.TextDocument): void {
+    // Skip diff views and other virtual documents
+    const language = this.languageForDocument(document);
+    if (!language || !['file', 'untitled'].includes(document.uri.scheme)) {
+      return;
+    }
+
+    const matches = analyzeSource(
+      document.getText(),
+      language,
+      this.dataProvider.getIndex(),
+      this.dataProvider.getTargets(document.uri),
+      document.fileName
+    );
+    this.publish(document, matches);
+  }
+
+  /**
+   * Re-analyze everything, e.g. after the data, targets or settings changed
+   */
+  public async refresh(): Promise<void> {
+    this.collection.clear();
+
+    vscode.workspace.textDocuments.forEach(document => this.analyzeDocument(document));
+    await this.scanWorkspace();
+  }
+
+  /**
+   * Analyze every CSS and JS file in the workspace that is not open
+   */
+  public async scanWorkspace(): Promise<void> {
+    if (!this.isEnabled() || !this.isWorkspaceEnabled()) {
+      return;
+    }
+
+    const uris = await vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB);
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: 'Baseline: checking workspace' },
+      async () => {
+        for (const uri of uris) {
+          if (!this.isOpen(uri)) {
+            await this.analyzeFile(uri);
+          }
+        }
+      }
+    );
+  }
+
+  /**
+   * Keep diagnostics in step with documents being opened and closed and
+   * with files changing on disk
+   */
+  public startWatching(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB);
+
+    const onFileChanged = (uri: vscode.Uri) => {
+      if (this.isWorkspaceEnabled() && !this.isOpen(uri) && !this.isExcluded(uri)) {
+        this.analyzeFile(uri);
+      }
+    };
+
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidChange(onFileChanged),
+      watcher.onDidCreate(onFileChanged),
+      watcher.onDidDelete(uri => this.collection.delete(uri)),
+      vscode.workspace.onDidOpenTextDocument(document => this.analyzeDocument(document)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        // Unsaved edits are gone once a document closes, so fall back to the file on disk
+        if (this.isWorkspaceEnabled() && document.uri.scheme === 'file' && this.languageForDocument(document)) {
+          this.analyzeFile(document.uri);
+        } else {
+          this.collection.delete(document.uri);
+        }
+      })
+    );
+  }
+
+  public dispose(): void {
+    this.collection.dispose();
+  }
+
+  private async analyzeFile(uri: vscode.Uri): Promise<void> {
+    const language = languageForFile(uri.fsPath);
+    if (!language) {
+      return;
+    }
+
+    try {
+      const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+      const matches = analyzeSource(text, language, this.dataProvider.getIndex(), this.dataProvider.getTargets(uri), uri.fsPath);
+      this.publishText(uri, text, matches);
+    } catch (error) {
+      console.error(`Baseline: could not analyze ${uri.fsPath}:`, error);
+    }
+  }
+
+  private publishText(uri: vscode.Uri, text: string, matches: FeatureMatch[]): void {
+    if (!this.isEnabled()) {
+      this.collection.delete(uri);
+      return;
+    }
+
+    this.collection.set(uri, createDiagnostics(text, matches, this.getSeverities(), this.dataProvider.getTargets(uri)));
+  }
+
+  private languageForDocument(document: vscode.TextDocument): SourceLanguage | undefined {
+    if (CSS_LANGUAGES.includes(document.languageId)) {
+      return 'css';
+    }
+    if (JS_LANGUAGES.includes(document.languageId)) {
+      return 'js';
+    }
+    return undefined;
+  }
+
+  private isOpen(uri: vscode.Uri): boolean {
+    return vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString());
+  }
+
+  private isExcluded(uri: vscode.Uri): boolean {
+    return /[\\/](node_modules|dist|build|out|\.git)[\\/]/.test(uri.fsPath);
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('baseline').get('diagnostics.enabled', true);
+  }
+
+  private isWorkspaceEnabled(): boolean {
+    return vscode.workspace.getConfiguration('baseline').get('diagnostics.workspace', true);
+  }
+
+  private getSeverities(): SeveritySettings {
+    const configured = vscode.workspace.getConfiguration('baseline').get<Partial<SeveritySettings>>('diagnostics.severity', {});
+    return { ...DEFAULT_SEVERITIES, ...configured };
+  }
+}
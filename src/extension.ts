@@ -1,14 +1,18 @@
 import * as vscode from 'vscode';
 import { BaselineDataProvider } from './baselineData';
 import { CSSDecorator } from './cssDecorator';
+import { CSSCodeActionProvider } from './cssCodeActions';
+import { JSCodeActionProvider } from './jsCodeActions';
 import { JSDecorator } from './jsDecorator';
 import { BaselineDashboardPanel } from './dashboardPanel';
+import { BaselineDiagnostics } from './diagnostics';
 import { TooltipActions } from './tooltipActions'; // <-- added import
 
 let dataProvider: BaselineDataProvider;
 let cssDecorator: CSSDecorator;
 let jsDecorator: JSDecorator;
 let dashboardPanel: BaselineDashboardPanel;
+let diagnostics: BaselineDiagnostics;
 let statusBarItem: vscode.StatusBarItem;
 
 export function activate(context: vscode.ExtensionContext) {
@@ -32,9 +36,13 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize data provider
     dataProvider = new BaselineDataProvider(context);
 
+    // Problems panel entries, for open documents and the rest of the workspace
+    diagnostics = new BaselineDiagnostics(dataProvider);
+    context.subscriptions.push(diagnostics, diagnostics.startWatching());
+
     // Initialize decorators
-    cssDecorator = new CSSDecorator(dataProvider);
-    jsDecorator = new JSDecorator(dataProvider);
+    cssDecorator = new CSSDecorator(dataProvider, diagnostics);
+    jsDecorator = new JSDecorator(dataProvider, diagnostics);
 
     // Initialize dashboard panel
     dashboardPanel = new BaselineDashboardPanel(context.extensionUri, dataProvider);
@@ -49,6 +57,10 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(cssDecorator.registerHoverProvider());
     context.subscriptions.push(jsDecorator.registerHoverProvider());
 
+    // Quick fixes for flagged CSS
+    context.subscriptions.push(CSSCodeActionProvider.register(dataProvider));
+    context.subscriptions.push(JSCodeActionProvider.register(dataProvider));
+
     // Show stats in status bar
     const stats = dataProvider.getStats();
     statusBarItem.text = `$(check) Baseline (${stats.css} CSS, ${stats.js} JS)`;
@@ -59,6 +71,7 @@ export function activate(context: vscode.ExtensionContext) {
     if (vscode.window.activeTextEditor) {
       decorateEditor(vscode.window.activeTextEditor);
     }
+    diagnostics.refresh();
 
     // Decorate when editor changes
     context.subscriptions.push(
@@ -110,9 +123,40 @@ export function activate(context: vscode.ExtensionContext) {
           decorateEditor(vscode.window.activeTextEditor);
         }
         dashboardPanel.refresh();
+        diagnostics.refresh();
+      })
+    );
+
+    // Keep the cached data fresh while the window stays open
+    const updateTimer = setInterval(() => checkForDataUpdates(), 24 * 60 * 60 * 1000);
+    context.subscriptions.push({ dispose: () => clearInterval(updateTimer) });
+
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('baseline.autoUpdate')) {
+          checkForDataUpdates();
+        }
+        if (event.affectsConfiguration('baseline.targets')) {
+          refreshTargets();
+        } else if (event.affectsConfiguration('baseline.diagnostics')) {
+          diagnostics.refresh();
+        }
       })
     );
 
+    // Project config files can set the targets too, so editor and CLI agree
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+      '**/{.baselinerc.json,package.json,baseline.config.js,baseline.config.mjs,baseline.config.ts}'
+    );
+    const onConfigFileChange = () => {
+      dataProvider.clearProjectConfig();
+      refreshTargets();
+    };
+    configWatcher.onDidChange(onConfigFileChange);
+    configWatcher.onDidCreate(onConfigFileChange);
+    configWatcher.onDidDelete(onConfigFileChange);
+    context.subscriptions.push(configWatcher);
+
     context.subscriptions.push(
       vscode.commands.registerCommand('baseline.showDashboard', () => {
         vscode.commands.executeCommand('baselineDashboard.focus');
@@ -142,10 +186,37 @@ function updateStatusBar(editor: vscode.TextEditor) {
   }
 }
 
+/**
+ * Re-rate everything after the browser targets changed
+ */
+function refreshTargets(): void {
+  if (vscode.window.activeTextEditor) {
+    decorateEditor(vscode.window.activeTextEditor);
+  }
+  dashboardPanel.refresh();
+  diagnostics.refresh();
+}
+
+async function checkForDataUpdates(): Promise<void> {
+  if (!(await dataProvider.checkForUpdates())) {
+    return;
+  }
+
+  const stats = dataProvider.getStats();
+  statusBarItem.text = `$(check) Baseline (${stats.css} CSS, ${stats.js} JS)`;
+  if (vscode.window.activeTextEditor) {
+    decorateEditor(vscode.window.activeTextEditor);
+  }
+  dashboardPanel.refresh();
+  diagnostics.refresh();
+}
+
 async function decorateEditor(editor: vscode.TextEditor): Promise<void> {
   const config = vscode.workspace.getConfiguration('baseline');
   
   if (!config.get('enableInlineBadges', true)) {
+    // Without badges the Problems panel still needs the findings
+    diagnostics.analyzeDocument(editor.document);
     return;
   }
 
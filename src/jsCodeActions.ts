@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { FeatureMatch, JSCallSite, JSUsage, SourceRange, analyzeSource, findCallSite } from '@baseline/core';
+import { BaselineDataProvider } from './baselineData';
+import { JS_MIGRATIONS, featureCheck } from './jsMigrations';
+
+// Longest replacement shown in full in an action title
+const MAX_TITLE_CODE_LENGTH = 50;
+
+/**
+ * Quick fixes for JS APIs that are not Baseline (or not supported by the
+ * configured targets): replace the call with a Baseline equivalent, or
+ * wrap it in a feature-detection guard with a fallback branch
+ */
+export class JSCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private dataProvider: BaselineDataProvider;
+
+  constructor(dataProvider: BaselineDataProvider) {
+    this.dataProvider = dataProvider;
+  }
+
+  public static register(dataProvider: BaselineDataProvider): vscode.Disposable {
+    return vscode.languages.registerCodeActionsProvider(
+      [
+        { language: 'javascript' },
+        { language: 'typescript' },
+        { language: 'javascriptreact' },
+        { language: 'typescriptreact' }
+      ],
+      new JSCodeActionProvider(dataProvider),
+      { providedCodeActionKinds: JSCodeActionProvider.providedCodeActionKinds }
+    );
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const text = document.getText();
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+
+    // Syntax can't be feature-detected at runtime, so only APIs get fixes
+    const calls = analyzeSource(text, 'js', this.dataProvider.getIndex(), this.dataProvider.getTargets(document.uri), document.fileName)
+      .filter(match => match.status !== 'baseline' && !match.guarded && match.usage.start <= end && match.usage.end >= start)
+      .filter(match => (match.usage as JSUsage).kind !== 'syntax')
+      .map(match => ({ match, call: findCallSite(text, match.usage.start, document.fileName) }))
+      .filter((entry): entry is { match: FeatureMatch; call: JSCallSite } => !!entry.call);
+
+    const actions = new Map<string, vscode.CodeAction>();
+    const addAction = (action: vscode.CodeAction | undefined, match: FeatureMatch) => {
+      if (action && !actions.has(action.title)) {
+        action.diagnostics = this.findDiagnostics(document, context, match);
+        actions.set(action.title, action);
+      }
+    };
+
+    for (const { match, call } of calls) {
+      addAction(this.createReplaceAction(document, match, call), match);
+    }
+    for (const { match, call } of calls) {
+      addAction(this.createGuardAction(document, match, call), match);
+    }
+
+    return Array.from(actions.values());
+  }
+
+  /**
+   * Rewrite the call with Baseline code, e.g. `items.at(-1)` as
+   * `items[items.length - 1]`
+   */
+  private createReplaceAction(document: vscode.TextDocument, match: FeatureMatch, call: JSCallSite): vscode.CodeAction | undefined {
+    const replacement = JS_MIGRATIONS[match.feature.id]?.replace?.(call);
+    if (!replacement) {
+      return undefined;
+    }
+
+    const shown = replacement.length > MAX_TITLE_CODE_LENGTH
+      ? `${replacement.slice(0, MAX_TITLE_CODE_LENGTH - 1)}…`
+      : replacement;
+
+    const action = new vscode.CodeAction(`Replace with ${shown}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, this.toRange(document, call.range), replacement);
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Wrap the statement making the call in `if (<feature check>) { … } else { … }`,
+   * with the fallback the knowledge base has for the feature in the else branch
+   */
+  private createGuardAction(document: vscode.TextDocument, match: FeatureMatch, call: JSCallSite): vscode.CodeAction | undefined {
+    if (!call.statement || call.isNew) {
+      return undefined;
+    }
+
+    const fallback = JS_MIGRATIONS[match.feature.id]?.fallback?.(call)
+      || `// Fallback for browsers without ${match.feature.name}`;
+
+    const action = new vscode.CodeAction(`Guard ${call.callee}() with feature detection`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      this.toRange(document, call.statement),
+      this.wrapStatement(document, call.statement, featureCheck(call), fallback)
+    );
+    return action;
+  }
+
+  private wrapStatement(document: vscode.TextDocument, statement: SourceRange, condition: string, fallback: string): string {
+    const statementStart = document.positionAt(statement.start);
+    const indent = document.lineAt(statementStart.line).text.match(/^\s*/)![0];
+    const statementLines = document.getText(this.toRange(document, statement)).split('\n');
+
+    const body = statementLines.map((line, i) => (i === 0 ? `${indent}  ${line}` : line.length > 0 ? `  ${line}` : line));
+    return `if (${condition}) {\n${body.join('\n')}\n${indent}} else {\n${indent}  ${fallback}\n${indent}}`;
+  }
+
+  /**
+   * Baseline diagnostics the action resolves, so it shows up under them
+   */
+  private findDiagnostics(
+    document: vscode.TextDocument,
+    context: vscode.CodeActionContext,
+    match: FeatureMatch
+  ): vscode.Diagnostic[] {
+    const usageRange = this.toRange(document, match.usage);
+    return context.diagnostics.filter(diagnostic => {
+      const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+      return diagnostic.source === 'Baseline' && code === match.feature.id && !!diagnostic.range.intersection(usageRange);
+    });
+  }
+
+  private toRange(document: vscode.TextDocument, range: SourceRange): vscode.Range {
+    return new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+  }
+}
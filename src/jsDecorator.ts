@@ -1,24 +1,34 @@
 import * as vscode from 'vscode';
-import { BaselineDataProvider, JSFeature } from './baselineData';
-import { JSParser } from './utils/jsParser';
-import { TooltipBuilder } from './tooltipBuilder';
+import { FeatureMatch, JSFeature, analyzeSource, detectJS } from '@baseline/core';
+import { BaselineDataProvider } from './baselineData';
+import { BaselineDiagnostics } from './diagnostics';
+import { BadgeStatus, TooltipBuilder } from './tooltipBuilder';
+
+// Badge severity, so a line shows its least supported API
+const STATUS_RANK: Record<BadgeStatus, number> = {
+  'baseline': 0,
+  'guarded': 1,
+  'limited': 2,
+  'not-baseline': 3
+};
 
 /**
  * Manages inline decorations for JavaScript APIs showing Baseline status
  */
 export class JSDecorator {
   private dataProvider: BaselineDataProvider;
-  private parser: JSParser;
+  private diagnostics: BaselineDiagnostics;
   
   private baselineDecoration: vscode.TextEditorDecorationType;
+  private guardedDecoration: vscode.TextEditorDecorationType;
   private limitedDecoration: vscode.TextEditorDecorationType;
   private nonBaselineDecoration: vscode.TextEditorDecorationType;
 
   private hoverProvider: vscode.Disposable | undefined;
 
-  constructor(dataProvider: BaselineDataProvider) {
+  constructor(dataProvider: BaselineDataProvider, diagnostics: BaselineDiagnostics) {
     this.dataProvider = dataProvider;
-    this.parser = new JSParser();
+    this.diagnostics = diagnostics;
     
     console.log('🎨 JSDecorator: Initializing decorations...');
     
@@ -32,6 +42,17 @@ export class JSDecorator {
       rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
     });
 
+    // Not Baseline, but only used behind a feature check
+    this.guardedDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        contentText: ' ◐ Progressively enhanced',
+        color: new vscode.ThemeColor('charts.blue'),
+        fontWeight: 'bold',
+        margin: '0 0 0 2em'
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+    });
+
     this.limitedDecoration = vscode.window.createTextEditorDecorationType({
       after: {
         contentText: ' ⚠ Limited',
@@ -67,49 +88,49 @@ export class JSDecorator {
     }
 
     console.log('📝 JSDecorator: Parsing JavaScript APIs...');
-    const text = document.getText();
-    const apiUsages = this.parser.extractAPIUsage(text, document);
+    // With targets configured, badges say whether the targets support a feature
+    const targets = this.dataProvider.getTargets(document.uri);
+    const matches = analyzeSource(document.getText(), 'js', this.dataProvider.getIndex(), targets, document.fileName);
 
-    console.log(`🔢 JSDecorator: Found ${apiUsages.length} API usages`);
+    console.log(`🔢 JSDecorator: Found ${matches.length} API usages`);
 
     const baselineDecorations: vscode.DecorationOptions[] = [];
+    const guardedDecorations: vscode.DecorationOptions[] = [];
     const limitedDecorations: vscode.DecorationOptions[] = [];
     const nonBaselineDecorations: vscode.DecorationOptions[] = [];
 
     // Group by line to avoid duplicate badges
-    const lineFeatures = new Map<number, JSFeature>();
-
-    for (const usage of apiUsages) {
-      console.log(`  - API: ${usage.api}`);
-      const feature = this.dataProvider.getJSFeature(usage.api);
-      
-      if (!feature) {
-        console.log(`    ⚠️ No Baseline data for: ${usage.api}`);
-        continue;
-      }
+    const lineMatches = new Map<number, FeatureMatch>();
 
-      console.log(`    ✓ Found feature: ${feature.name}, status: ${feature.status}`);
+    for (const match of matches) {
+      console.log(`  - API: ${match.usage.name}: ${match.feature.name}, status: ${match.status}`);
 
-      // Only add one badge per line (the first feature found)
-      if (!lineFeatures.has(usage.line)) {
-        lineFeatures.set(usage.line, feature);
+      const current = lineMatches.get(match.usage.line);
+      if (!current || STATUS_RANK[TooltipBuilder.getBadgeStatus(match)] > STATUS_RANK[TooltipBuilder.getBadgeStatus(current)]) {
+        lineMatches.set(match.usage.line, match);
       }
     }
 
     // Create decorations at end of each line
-    for (const [lineNumber, feature] of lineFeatures) {
+    for (const [lineNumber, match] of lineMatches) {
+      const { feature } = match;
+      const status = TooltipBuilder.getBadgeStatus(match);
       const line = document.lineAt(lineNumber);
       const endOfLine = line.range.end;
-      
+
       const decoration: vscode.DecorationOptions = {
         range: new vscode.Range(endOfLine, endOfLine),
-        hoverMessage: TooltipBuilder.createJSTooltip(feature) // Use new tooltip builder
+        hoverMessage: TooltipBuilder.createJSTooltip(feature as JSFeature, targets), // Use new tooltip builder
+        renderOptions: targets ? { after: { contentText: TooltipBuilder.getTargetLabel(status) } } : undefined
       };
 
-      switch (feature.status) {
+      switch (status) {
         case 'baseline':
           baselineDecorations.push(decoration);
           break;
+        case 'guarded':
+          guardedDecorations.push(decoration);
+          break;
         case 'limited':
           limitedDecorations.push(decoration);
           break;
@@ -119,38 +140,40 @@ export class JSDecorator {
       }
     }
 
-    console.log(`📊 Applying JS decorations: ${baselineDecorations.length} baseline, ${limitedDecorations.length} limited, ${nonBaselineDecorations.length} non-baseline`);
+    console.log(`📊 Applying JS decorations: ${baselineDecorations.length} baseline, ${guardedDecorations.length} guarded, ${limitedDecorations.length} limited, ${nonBaselineDecorations.length} non-baseline`);
+
+    // The same findings feed the Problems panel
+    this.diagnostics.publish(document, matches);
 
     editor.setDecorations(this.baselineDecoration, baselineDecorations);
+    editor.setDecorations(this.guardedDecoration, guardedDecorations);
     editor.setDecorations(this.limitedDecoration, limitedDecorations);
     editor.setDecorations(this.nonBaselineDecoration, nonBaselineDecorations);
     
     console.log('✅ JSDecorator: Decorations applied');
-    
-    if (apiUsages.length > 0) {
-      vscode.window.showInformationMessage(
-        `Baseline: Found ${apiUsages.length} JS APIs (${baselineDecorations.length} baseline-ready)`
-      );
-    }
   }
 
   private provideHover(
     document: vscode.TextDocument,
     position: vscode.Position
   ): vscode.Hover | undefined {
-    const range = document.getWordRangeAtPosition(position, /[\w.]+/);
-    if (!range) {
-      return undefined;
-    }
+    // Hover the exact API under the cursor, resolved the same way as badges
+    const offset = document.offsetAt(position);
+    const index = this.dataProvider.getIndex();
 
-    const word = document.getText(range);
-    const feature = this.dataProvider.getJSFeature(word);
+    for (const usage of detectJS(document.getText(), document.fileName)) {
+      if (usage.start > offset || offset > usage.end) {
+        continue;
+      }
 
-    if (!feature) {
-      return undefined;
+      const feature = index.getJSFeatureForUsage(usage);
+      if (feature) {
+        const range = new vscode.Range(document.positionAt(usage.start), document.positionAt(usage.end));
+        return new vscode.Hover(TooltipBuilder.createJSTooltip(feature, this.dataProvider.getTargets(document.uri)), range);
+      }
     }
 
-    return new vscode.Hover(TooltipBuilder.createJSTooltip(feature), range);
+    return undefined;
   }
 
   private isJSDocument(document: vscode.TextDocument): boolean {
@@ -190,6 +213,7 @@ export class JSDecorator {
 
   public dispose(): void {
     this.baselineDecoration.dispose();
+    this.guardedDecoration.dispose();
     this.limitedDecoration.dispose();
     this.nonBaselineDecoration.dispose();
     
@@ -0,0 +1,115 @@
+import { JSCallSite } from '@baseline/core';
+
+/**
+ * What we know about moving off a JS API: the tips shown in tooltips and,
+ * where we have them, what the quick fixes generate. `fallback` is the
+ * statement run when a feature-detection guard fails; `replace` rewrites
+ * the call with Baseline code that does the same.
+ */
+export interface JSMigration {
+  tips: string[];
+  fallback?: (call: JSCallSite) => string | undefined;
+  replace?: (call: JSCallSite) => string | undefined;
+}
+
+export const DEFAULT_JS_TIPS = [
+  'Use feature detection before using API',
+  'Consider polyfills if needed',
+  'Provide graceful degradation'
+];
+
+// Globals a member can be detected on with `in`
+const DETECTABLE_RECEIVERS = ['window', 'self', 'globalThis', 'navigator', 'document'];
+
+// Receivers that can be read twice without side effects, e.g. `items` or `this.items`
+const SIMPLE_RECEIVER = /^(?:this|[A-Za-z_$][\w$]*)(?:\.[A-Za-z_$][\w$]*)*$/;
+
+export const JS_MIGRATIONS: Record<string, JSMigration> = {
+  'view-transitions': {
+    tips: [
+      'Check for feature support: `if (document.startViewTransition)`',
+      'Provide fallback for browsers without support',
+      'Use progressive enhancement approach'
+    ],
+    // Without transitions the DOM update still has to happen
+    fallback: call => {
+      const update = call.args[0];
+      if (!update) {
+        return undefined;
+      }
+      return /^[\w$.]+$/.test(update) ? `${update}();` : `(${update})();`;
+    }
+  },
+  share: {
+    tips: [
+      'Check `navigator.share` availability',
+      'Provide traditional sharing fallbacks',
+      'Graceful degradation for desktop browsers'
+    ],
+    fallback: () => '// Offer a copy-link button or share links instead'
+  },
+  'async-clipboard': {
+    tips: [
+      'Check `navigator.clipboard` availability',
+      'Clipboard access needs a secure context and a user gesture'
+    ],
+    fallback: () => "// Select the text and use document.execCommand('copy') instead"
+  },
+  'structured-clone': {
+    tips: [
+      '`JSON.parse(JSON.stringify(value))` copies plain data only',
+      'Dates, Maps, Sets, typed arrays and cycles need `structuredClone` or a library'
+    ]
+  },
+  'array-at': {
+    tips: [
+      'Index from the end with `items[items.length - 1]`'
+    ],
+    replace: call => {
+      const index = call.args[0]?.trim();
+      if (call.member !== 'at' || !call.receiver || call.args.length !== 1 || !/^-?\d+$/.test(index)) {
+        return undefined;
+      }
+      if (!index.startsWith('-')) {
+        return `${call.receiver}[${index}]`;
+      }
+      return SIMPLE_RECEIVER.test(call.receiver) ? `${call.receiver}[${call.receiver}.length - ${index.slice(1)}]` : undefined;
+    }
+  },
+  'array-findlast': {
+    tips: [
+      'Loop backwards from `items.length - 1` and return the first match'
+    ]
+  },
+  'array-by-copy': {
+    tips: [
+      'Copy before sorting or reversing: `items.slice().sort(fn)`'
+    ],
+    replace: call => {
+      if (!call.receiver) {
+        return undefined;
+      }
+      // slice() copies typed arrays as typed arrays, so they still sort numerically
+      if (call.member === 'toSorted' && call.args.length <= 1) {
+        return `${call.receiver}.slice().sort(${call.args.join('')})`;
+      }
+      if (call.member === 'toReversed' && call.args.length === 0) {
+        return `${call.receiver}.slice().reverse()`;
+      }
+      return undefined;
+    }
+  }
+};
+
+/**
+ * The condition a guard around the call tests: `'share' in navigator` for
+ * the browser globals (`'clipboard' in navigator` for
+ * `navigator.clipboard.writeText`), a typeof check for everything else
+ */
+export function featureCheck(call: JSCallSite): string {
+  const [root, member] = call.callee.split('.');
+  if (member && DETECTABLE_RECEIVERS.includes(root) && /^[A-Za-z_$][\w$]*$/.test(member)) {
+    return `'${member}' in ${root}`;
+  }
+  return `typeof ${call.callee} === 'function'`;
+}
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaselineDataProvider } from '../baselineData';
+import { BaselineDataCache } from '../dataCache';
+import { mockCSSFeatures, mockJSFeatures } from './fixtures/mockFeatures';
+
+describe('BaselineDataProvider', () => {
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-test-'));
+  const context = { globalStorageUri: vscode.Uri.file(storageDir) } as vscode.ExtensionContext;
+
+  it('indexes the bundled web-features data', () => {
+    const provider = new BaselineDataProvider(context);
+
+    const containerType = provider.getCSSFeature('container-type');
+    assert.ok(containerType);
+    assert.strictEqual(containerType.id, 'container-queries');
+    assert.strictEqual(containerType.status, 'limited');
+    assert.strictEqual(containerType.lowDate, '2023-02-14');
+
+    const observer = provider.getJSFeature('IntersectionObserver');
+    assert.ok(observer);
+    assert.strictEqual(observer.status, 'baseline');
+
+    assert.ok(provider.getStats().css > 100);
+  });
+
+  it('does not flag plain properties with the oklch feature', () => {
+    const provider = new BaselineDataProvider(context);
+    assert.strictEqual(provider.getCSSFeature('color'), undefined);
+  });
+
+  it('can be pointed at the mock fixture explicitly', () => {
+    const provider = new BaselineDataProvider(context);
+    provider.useFeatures(mockCSSFeatures, mockJSFeatures);
+
+    assert.strictEqual(provider.getCSSFeature('oklch()')?.id, 'css-color-oklch');
+    assert.strictEqual(provider.getCSSFeature('color'), undefined);
+    assert.strictEqual(provider.getJSFeature('navigator.share')?.id, 'web-share-api');
+  });
+
+  it('writes a versioned cache and reuses it', () => {
+    const provider = new BaselineDataProvider(context);
+    const version = provider.getDataVersion();
+    assert.ok(version);
+
+    const cached = new BaselineDataCache(storageDir).load(version);
+    assert.strictEqual(cached.status, 'valid');
+    assert.strictEqual(new BaselineDataProvider(context).needsUpdate(), false);
+  });
+
+  it('rebuilds the cache when it is corrupt', () => {
+    const cache = new BaselineDataCache(storageDir);
+    fs.writeFileSync(cache.filePath, '{"css": {"display": ');
+
+    const provider = new BaselineDataProvider(context);
+    assert.ok(provider.getCSSFeature('container-type'));
+    assert.strictEqual(cache.load(provider.getDataVersion()!).status, 'valid');
+  });
+
+  it('invalidates a cache built from another web-features release', () => {
+    const cache = new BaselineDataCache(storageDir);
+    cache.save('0.0.0', {}, {});
+
+    assert.strictEqual(cache.load('0.8.6').status, 'outdated');
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, resolveConfig } from '@baseline/core';
+
+describe('Project config', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds the nearest config and merges the presets it extends', () => {
+    write('package.json', JSON.stringify({ name: 'app', baseline: { extends: ['@ourco/baseline-config', './strict.json'], threshold: 90 } }));
+    write('strict.json', JSON.stringify({ failOnNonBaseline: true }));
+    write('node_modules/@ourco/baseline-config/package.json', JSON.stringify({ name: '@ourco/baseline-config', main: 'index.js' }));
+    write('node_modules/@ourco/baseline-config/index.js', 'module.exports = { targets: "baseline 2022", threshold: 50 };');
+    write('packages/ui/src/button.css', '');
+
+    const { config, files } = loadConfig(path.join(root, 'packages/ui/src'));
+    assert.deepStrictEqual(config, { targets: 'baseline 2022', threshold: 90, failOnNonBaseline: true });
+    assert.strictEqual(files[0], path.join(root, 'package.json'));
+
+    // Unset flags leave the config alone, set ones win
+    const resolved = resolveConfig(config, { threshold: undefined, targets: 'widely available' });
+    assert.strictEqual(resolved.threshold, 90);
+    assert.strictEqual(resolved.targets, 'widely available');
+    assert.deepStrictEqual(resolved.include, ['**/*.{css,scss,less,js,ts,jsx,tsx}']);
+
+    // A config closer to the files takes over, in any supported format
+    write('packages/ui/baseline.config.ts', 'const targets: string = "safari >= 16";\nexport default { targets };\n');
+    assert.deepStrictEqual(loadConfig(path.join(root, 'packages/ui/src')).config, { targets: 'safari >= 16' });
+  });
+
+  it('reports invalid keys and values with the file they came from', () => {
+    write('.baselinerc.json', JSON.stringify({ treshold: 90, include: 'src' }));
+    assert.throws(() => loadConfig(root), (error: Error) =>
+      error.message.includes(path.join(root, '.baselinerc.json')) &&
+      error.message.includes('unknown option "treshold" (did you mean "threshold"?)') &&
+      error.message.includes('"include" must be an array of glob patterns'));
+  });
+});
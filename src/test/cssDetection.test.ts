@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { FeatureIndex, analyzeSource } from '@baseline/core';
+
+describe('CSS value detection', () => {
+  const index = FeatureIndex.fromWebFeatures();
+
+  const featuresIn = (css: string) => analyzeSource(css, 'css', index).map(match => match.feature.id);
+
+  it('maps functions, keywords and units to their own features', () => {
+    assert.deepStrictEqual(featuresIn('a { color: oklch(70% 0.1 200); }'), ['oklab']);
+    assert.deepStrictEqual(featuresIn('a { color: light-dark(#000, #fff); }'), ['light-dark']);
+    assert.deepStrictEqual(featuresIn('a { width: clamp(1rem, 2vw, 3rem); }'), ['min-max-clamp', 'viewport-units']);
+    assert.deepStrictEqual(featuresIn('a { position: sticky; }'), ['sticky-positioning']);
+    assert.deepStrictEqual(featuresIn('a { grid-template-columns: subgrid; }'), ['grid', 'subgrid']);
+    assert.deepStrictEqual(featuresIn('a { height: 100dvh; inline-size: 50cqi; }'), ['viewport-unit-variants', 'container-queries']);
+  });
+
+  it('does not flag plain declarations', () => {
+    assert.deepStrictEqual(featuresIn('a { color: #1e3; position: relative; }'), []);
+  });
+
+  it('ignores functions, units and keywords in strings, urls and comments', () => {
+    assert.deepStrictEqual(featuresIn('a { content: "oklch(1 2 3) 10dvh"; }'), []);
+    assert.deepStrictEqual(featuresIn("a { content: 'sticky \\' 5cqi'; }"), []);
+    assert.deepStrictEqual(featuresIn('a { background: url(img/oklch-10dvh.png); }'), []);
+    assert.deepStrictEqual(featuresIn('a { height: 100dvh /* was 100vh */; }'), ['viewport-unit-variants']);
+  });
+
+  it('detects at-rules, media features and selectors', () => {
+    assert.deepStrictEqual(featuresIn('@container card (min-width: 400px) { }'), ['container-queries']);
+    assert.deepStrictEqual(featuresIn('@layer base, components;'), ['cascade-layers']);
+    assert.deepStrictEqual(featuresIn('@media (prefers-color-scheme: dark) { }'), ['prefers-color-scheme']);
+    assert.deepStrictEqual(featuresIn('@media (width >= 600px) { }'), ['media-query-range-syntax']);
+    assert.deepStrictEqual(featuresIn('.card:has(> img) { }'), ['has']);
+    assert.deepStrictEqual(featuresIn(':is(h1, h2):where(.x) { }'), ['is', 'where']);
+    assert.deepStrictEqual(featuresIn('.parent {\n  & .child { }\n}'), ['nesting']);
+  });
+
+  it('falls back to declarations when the stylesheet does not parse', () => {
+    assert.deepStrictEqual(featuresIn('a { // scss comment\n  position: sticky; }'), ['sticky-positioning']);
+  });
+
+  it('reports the range of the value that matched', () => {
+    const css = 'a { background: color-mix(in srgb, red, blue); }';
+    const [match] = analyzeSource(css, 'css', index);
+    assert.strictEqual(css.slice(match.usage.start, match.usage.end), 'color-mix');
+
+    const selector = 'a, li:focus-visible { }';
+    const [pseudo] = analyzeSource(selector, 'css', index);
+    assert.strictEqual(selector.slice(pseudo.usage.start, pseudo.usage.end), ':focus-visible');
+  });
+
+  it('marks features checked by @supports as guarded', () => {
+    const css = [
+      '@supports (container-type: inline-size) {',
+      '  .card { container-type: inline-size; }',
+      '  .card:has(img) { color: red; }',
+      '}',
+      '@supports not (container-type: size) { .panel { container-type: size; } }'
+    ].join('\n');
+    const guarded = analyzeSource(css, 'css', index).map(match => `${match.feature.id}${match.guarded ? ' guarded' : ''}`);
+    assert.deepStrictEqual(guarded, ['container-queries guarded', 'has', 'container-queries']);
+  });
+});
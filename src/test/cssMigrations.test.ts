@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { CSS_MIGRATIONS } from '../cssMigrations';
+
+describe('CSS migration fallbacks', () => {
+  const fallback = (featureId: string, value: string) => CSS_MIGRATIONS[featureId].fallback!(value);
+
+  it('converts oklch() and oklab() colors to rgb()', () => {
+    assert.strictEqual(fallback('oklab', 'oklch(62.8% 0.2577 29.23)'), 'rgb(255, 0, 0)');
+    assert.strictEqual(fallback('oklab', 'oklab(0.5 0 0 / 50%)'), 'rgba(99, 99, 99, 0.5)');
+    assert.strictEqual(fallback('oklab', '1px solid oklch(100% 0 0)'), '1px solid rgb(255, 255, 255)');
+  });
+
+  it('leaves colors that need the browser to resolve them alone', () => {
+    assert.strictEqual(fallback('oklab', 'oklch(var(--l) 0.1 200)'), undefined);
+    assert.strictEqual(fallback('oklab', 'oklch(from red l c h)'), undefined);
+  });
+
+  it('picks the light color and plain viewport units', () => {
+    assert.strictEqual(fallback('light-dark', 'light-dark(rgb(0 0 0), #fff)'), 'rgb(0 0 0)');
+    assert.strictEqual(fallback('viewport-unit-variants', 'calc(100dvh - 2svw)'), 'calc(100vh - 2vw)');
+  });
+});
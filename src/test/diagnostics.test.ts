@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BrowserTargets, FeatureIndex, analyzeSource } from '@baseline/core';
+import { DEFAULT_SEVERITIES, createDiagnostics } from '../diagnostics';
+
+describe('Baseline diagnostics', () => {
+  const index = FeatureIndex.fromWebFeatures();
+  const css = '.card {\n  container-type: inline-size;\n  aspect-ratio: 1;\n}';
+
+  it('maps statuses to the configured severities', () => {
+    const diagnostics = createDiagnostics(css, analyzeSource(css, 'css', index), DEFAULT_SEVERITIES);
+
+    // aspect-ratio is widely available, which is not reported by default
+    assert.strictEqual(diagnostics.length, 1);
+    const [containerType] = diagnostics;
+    assert.strictEqual(containerType.severity, vscode.DiagnosticSeverity.Warning);
+    assert.strictEqual(containerType.source, 'Baseline');
+    assert.deepStrictEqual(
+      [containerType.range.start.line, containerType.range.start.character, containerType.range.end.character],
+      [1, 2, 16]
+    );
+
+    const code = containerType.code as { value: string; target: vscode.Uri };
+    assert.strictEqual(code.value, 'container-queries');
+    assert.ok(code.target.toString().startsWith('https://developer.mozilla.org/'));
+
+    const strict = createDiagnostics(css, analyzeSource(css, 'css', index), { ...DEFAULT_SEVERITIES, baseline: 'hint' });
+    assert.strictEqual(strict.length, 2);
+  });
+
+  it('names the targets a feature is missing from', () => {
+    const targets = BrowserTargets.parse('safari >= 15');
+    const [diagnostic] = createDiagnostics(css, analyzeSource(css, 'css', index, targets), DEFAULT_SEVERITIES, targets);
+    assert.strictEqual(diagnostic.message, 'Container queries is not supported by all of your targets: safari 15 (needs 16)');
+  });
+});
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import { FeatureIndex, analyzeSource, detectJS } from '@baseline/core';
+
+describe('JS API detection', () => {
+  const index = FeatureIndex.fromWebFeatures();
+
+  const featuresIn = (js: string, fileName?: string) =>
+    analyzeSource(js, 'js', index, undefined, fileName).map(match => match.feature.id);
+
+  it('resolves member chains and builtin methods', () => {
+    assert.deepStrictEqual(featuresIn('navigator.clipboard.writeText(text);'), ['async-clipboard']);
+    assert.deepStrictEqual(featuresIn('const clip = navigator.clipboard;\nclip.readText();'), ['async-clipboard', 'async-clipboard']);
+    assert.deepStrictEqual(featuresIn('const copy = structuredClone(state);'), ['structured-clone']);
+    assert.deepStrictEqual(featuresIn('items.at(-1);'), ['array-at']);
+    assert.deepStrictEqual(featuresIn('Promise.allSettled(jobs);'), ['promise', 'promise-allsettled']);
+  });
+
+  it('ignores strings, comments, property names and shadowed globals', () => {
+    const js = [
+      '// fetch("/api") is only mentioned here',
+      'const label = "new Map() and crypto";',
+      'api.fetch("/items");',
+      'function load(fetch: (url: string) => Promise<Response>) {',
+      '  return fetch("/items");',
+      '}'
+    ].join('\n');
+    assert.deepStrictEqual(featuresIn(js, 'load.ts'), []);
+  });
+
+  it('reports the range of the API itself', () => {
+    const js = 'navigator.clipboard.writeText(text);';
+    const ranges = detectJS(js).map(usage => js.slice(usage.start, usage.end));
+    assert.deepStrictEqual(ranges, ['navigator', 'clipboard', 'writeText', 'text']);
+  });
+});
+
+describe('JS syntax detection', () => {
+  // Syntax features published after the bundled web-features release
+  const index = FeatureIndex.fromWebFeatures({
+    'nullish-coalescing': {
+      name: 'Nullish coalescing',
+      description: '',
+      status: { baseline: 'high', support: {} },
+      compat_features: ['javascript.operators.nullish_coalescing', 'javascript.operators.nullish_coalescing_assignment']
+    },
+    'regexp-unicode-sets': {
+      name: 'RegExp v flag',
+      description: '',
+      status: { baseline: 'low', support: {} },
+      compat_features: ['javascript.builtins.RegExp.unicodeSets']
+    }
+  }, 'test');
+
+  it('reports each syntax feature on its own token', () => {
+    const js = [
+      'const url = import.meta.url;',
+      'class Job { #id = 1; static { setup(); } #run() { return #id in this; } }',
+      'options.retries ??= user?.retries ?? 3;',
+      'const amount = /(?<=\\$)\\d+/v;'
+    ].join('\n');
+
+    const syntax = detectJS(js)
+      .filter(usage => usage.kind === 'syntax')
+      .map(usage => `${usage.name} ${js.slice(usage.start, usage.end)}`);
+
+    assert.deepStrictEqual(syntax, [
+      'import.meta import.meta',
+      '#field #id',
+      'static {} static',
+      '#method() #run',
+      '#field in #id',
+      '??= ??=',
+      '?. ?.',
+      '?? ??',
+      '(?<=) /(?<=\\$)\\d+/v',
+      '/v /(?<=\\$)\\d+/v'
+    ]);
+  });
+
+  it('resolves syntax through web-features compat keys', () => {
+    const matches = analyzeSource('a ??= b;\nconst re = /[\\p{L}--\\p{Lu}]/v;', 'js', index);
+    assert.deepStrictEqual(matches.map(match => [match.feature.id, match.status]), [
+      ['nullish-coalescing', 'baseline'],
+      ['regexp-unicode-sets', 'limited']
+    ]);
+  });
+
+  it('only counts await outside functions as top-level', () => {
+    const names = detectJS('await ready;\nasync function run() { await ready; }').map(usage => usage.name);
+    assert.strictEqual(names.filter(name => name === 'top-level await').length, 1);
+  });
+});
+
+describe('JS feature-detection guards', () => {
+  const index = FeatureIndex.fromWebFeatures();
+
+  const guardedLines = (js: string) =>
+    analyzeSource(js, 'js', index)
+      .filter(match => match.status !== 'baseline')
+      .map(match => `${match.usage.line} ${match.feature.id}${match.guarded ? ' guarded' : ''}`);
+
+  it('guards code behind typeof, in and truthiness checks', () => {
+    const js = [
+      "if ('startViewTransition' in document) document.startViewTransition(update);",
+      "const copy = typeof structuredClone === 'function' ? structuredClone(x) : JSON.parse(JSON.stringify(x));",
+      'if (!navigator.clipboard) {',
+      '  return;',
+      '}',
+      'navigator.clipboard.writeText(text);',
+      'structuredClone(y);'
+    ].join('\n');
+    assert.deepStrictEqual(guardedLines(js), [
+      '0 view-transitions guarded',
+      '1 structured-clone guarded',
+      '2 async-clipboard guarded',
+      '5 async-clipboard guarded',
+      '6 structured-clone'
+    ]);
+  });
+
+  it('guards optional calls and CSS.supports() branches', () => {
+    const js = [
+      'navigator.clipboard?.writeText(text);',
+      "if (CSS.supports('view-transition-name: none')) document.startViewTransition(update);",
+      "if (CSS.supports('container-type: size')) document.startViewTransition(update);"
+    ].join('\n');
+    assert.deepStrictEqual(guardedLines(js), [
+      '0 async-clipboard guarded',
+      '1 view-transitions guarded',
+      '2 view-transitions'
+    ]);
+  });
+});
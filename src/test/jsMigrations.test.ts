@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { FeatureIndex, findCallSite } from '@baseline/core';
+import { JS_MIGRATIONS, featureCheck } from '../jsMigrations';
+
+describe('JS migrations', () => {
+  const callAt = (js: string, name: string) => findCallSite(js, js.indexOf(name))!;
+  const replace = (featureId: string, js: string, name: string) => JS_MIGRATIONS[featureId].replace!(callAt(js, name));
+
+  it('finds the call and the statement around a usage', () => {
+    const js = 'async function copy() {\n  await navigator.clipboard.writeText(text);\n}';
+    const call = callAt(js, 'clipboard');
+    assert.strictEqual(call.callee, 'navigator.clipboard.writeText');
+    assert.deepStrictEqual(call.args, ['text']);
+    assert.strictEqual(js.slice(call.statement!.start, call.statement!.end), 'await navigator.clipboard.writeText(text);');
+    assert.strictEqual(featureCheck(call), "'clipboard' in navigator");
+
+    assert.strictEqual(callAt('items.forEach(item => structuredClone(item));', 'structured').statement, undefined);
+  });
+
+  it('rewrites calls with Baseline equivalents', () => {
+    assert.strictEqual(replace('array-at', 'const last = items.at(-1);', 'items'), 'items[items.length - 1]');
+    assert.strictEqual(replace('array-at', 'rows().at(-1);', 'at('), undefined);
+    assert.strictEqual(replace('array-by-copy', 'const sorted = list.toSorted(byName);', 'toSorted'), 'list.slice().sort(byName)');
+    assert.strictEqual(replace('array-by-copy', 'const backwards = bytes.toReversed();', 'toReversed'), 'bytes.slice().reverse()');
+
+    // No Baseline rewrite behaves the same for these
+    assert.strictEqual(JS_MIGRATIONS['structured-clone'].replace, undefined);
+    assert.strictEqual(JS_MIGRATIONS['array-findlast'].replace, undefined);
+  });
+
+  it('is keyed by ids the feature index knows', () => {
+    const ids = new Set(Object.values(FeatureIndex.fromWebFeatures().toTables().js).map(feature => feature.id));
+    // Newer than the bundled web-features data; drop from this list once it's upgraded
+    const notYetInData = ['share'];
+
+    for (const id of Object.keys(JS_MIGRATIONS)) {
+      assert.strictEqual(ids.has(id), !notYetInData.includes(id), `JS_MIGRATIONS['${id}']`);
+    }
+  });
+
+  it('runs the update directly when view transitions are missing', () => {
+    const js = 'document.startViewTransition(() => render(state));';
+    assert.strictEqual(JS_MIGRATIONS['view-transitions'].fallback!(callAt(js, 'start')), '(() => render(state))();');
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { FeatureIndex, analyzeSourceWithSuppressions } from '@baseline/core';
+
+describe('Suppression comments', () => {
+  const index = FeatureIndex.fromWebFeatures();
+  const featureIds = (text: string, language: 'css' | 'js') =>
+    analyzeSourceWithSuppressions(text, language, index).matches.map(match => match.feature.id);
+
+  it('silences the line it is on or the next one, and records the reason', () => {
+    const css = '.card {\n  container-type: inline-size; /* baseline-ignore container-type -- sized by JS in old browsers */\n}';
+    const { matches, suppressions } = analyzeSourceWithSuppressions(css, 'css', index);
+    assert.strictEqual(matches.length, 0);
+
+    const [suppression] = suppressions;
+    assert.strictEqual(suppression.kind, 'ignore');
+    assert.deepStrictEqual(suppression.names, ['container-type']);
+    assert.strictEqual(suppression.reason, 'sized by JS in old browsers');
+    assert.deepStrictEqual(suppression.suppressed.map(match => match.feature.id), ['container-queries']);
+
+    const js = '// baseline-ignore-next-line structuredClone\nstructuredClone(a);\nstructuredClone(b);';
+    const next = analyzeSourceWithSuppressions(js, 'js', index);
+    assert.deepStrictEqual(next.matches.map(match => match.usage.line), [2]);
+    assert.strictEqual(next.suppressions[0].reason, undefined);
+
+    // Only the names listed are silenced
+    assert.deepStrictEqual(featureIds('a:has(b) { container-type: size; } /* baseline-ignore :has */', 'css'), ['container-queries']);
+  });
+
+  it('silences a whole file with baseline-disable', () => {
+    const js = '/* baseline-disable -- polyfilled in app shell */\nstructuredClone(state);\n\ndocument.startViewTransition(update);';
+    const { matches, suppressions } = analyzeSourceWithSuppressions(js, 'js', index);
+    assert.strictEqual(matches.length, 0);
+    assert.strictEqual(suppressions[0].kind, 'disable');
+    assert.deepStrictEqual(suppressions[0].suppressed.map(match => match.usage.line), [1, 3]);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { BrowserTargets, FeatureIndex, analyzeSource, countByStatus } from '@baseline/core';
+
+describe('BrowserTargets', () => {
+  const index = FeatureIndex.fromWebFeatures();
+
+  it('combines a Baseline year with extra browser versions', () => {
+    const targets = BrowserTargets.parse('baseline 2022, safari >= 15.4');
+
+    const aspectRatio = index.getCSSFeature('aspect-ratio');
+    assert.ok(aspectRatio);
+    assert.strictEqual(targets.statusFor(aspectRatio), 'baseline');
+
+    // Container queries became Baseline in 2023 and need Safari 16
+    const containerType = index.getCSSFeature('container-type');
+    assert.ok(containerType);
+    const support = targets.evaluate(containerType);
+    assert.strictEqual(support.supported, false);
+    assert.deepStrictEqual(support.missing, [
+      'Baseline 2022 (newly available in 2023)',
+      'safari 15.4 (needs 16)'
+    ]);
+  });
+
+  it('accepts "widely available" as a target', () => {
+    const targets = BrowserTargets.parse('widely available');
+    const containerType = index.getCSSFeature('container-type');
+    assert.ok(containerType);
+    assert.strictEqual(targets.evaluate(containerType).supported, false);
+  });
+
+  it('rates analysis results by target support', () => {
+    const css = '.card { container-type: inline-size; aspect-ratio: 1; }';
+    const counts = countByStatus(analyzeSource(css, 'css', index, BrowserTargets.parse('safari >= 16, chrome >= 105')));
+    assert.deepStrictEqual(counts, { baseline: 2, limited: 0, nonBaseline: 0, guarded: 0 });
+  });
+
+  it('rejects invalid browserslist queries', () => {
+    assert.throws(() => BrowserTargets.parse('not a browser'));
+  });
+});
@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
+import { BaselineStatus, BrowserTargets, FeatureMatch } from '@baseline/core';
 import { BaselineFeature, CSSFeature, JSFeature } from './baselineData';
+import { CSS_MIGRATIONS, DEFAULT_CSS_TIPS } from './cssMigrations';
+import { DEFAULT_JS_TIPS, JS_MIGRATIONS } from './jsMigrations';
+
+// What a line's badge shows: the match status, or 'guarded' for a feature
+// used only behind a check for it (progressive enhancement)
+export type BadgeStatus = BaselineStatus | 'guarded';
 
 export class TooltipBuilder {
   /**
    * Create a rich hover tooltip for CSS features
    */
-  public static createCSSTooltip(feature: CSSFeature): vscode.MarkdownString {
+  public static createCSSTooltip(feature: CSSFeature, targets?: BrowserTargets): vscode.MarkdownString {
     const markdown = new vscode.MarkdownString();
     markdown.isTrusted = true;
     // supportHtml is still available on MarkdownString in many VS Code versions
@@ -14,12 +21,18 @@ export class TooltipBuilder {
     markdown.supportHtml = true;
 
     // Header with status emoji
-    const statusEmoji = this.getStatusEmoji(feature.status);
+    const status = targets ? targets.statusFor(feature) : feature.status;
+    const statusEmoji = this.getStatusEmoji(status);
     markdown.appendMarkdown(`### ${statusEmoji} ${feature.name}\n\n`);
 
     // Status badge with timeline
     this.appendStatusSection(markdown, feature);
 
+    // Support across the configured browser targets
+    if (targets) {
+      this.appendTargetSection(markdown, feature, targets);
+    }
+
     // Description
     if (feature.description) {
       markdown.appendMarkdown(`${feature.description}\n\n`);
@@ -37,11 +50,23 @@ export class TooltipBuilder {
       markdown.appendMarkdown('\n');
     }
 
+    // Values, at-rules and selectors
+    if (feature.values && feature.values.length > 0) {
+      markdown.appendMarkdown(`**Syntax:**\n\n`);
+      feature.values.slice(0, 10).forEach(value => {
+        markdown.appendMarkdown(`- \`${value}\`\n`);
+      });
+      if (feature.values.length > 10) {
+        markdown.appendMarkdown(`- …and ${feature.values.length - 10} more\n`);
+      }
+      markdown.appendMarkdown('\n');
+    }
+
     // Code examples
     this.appendCSSExample(markdown, feature);
 
     // Migration tips for non-baseline features
-    if (feature.status !== 'baseline') {
+    if (status !== 'baseline') {
       this.appendMigrationTips(markdown, feature);
     }
 
@@ -58,14 +83,15 @@ export class TooltipBuilder {
   /**
    * Create a rich hover tooltip for JavaScript APIs
    */
-  public static createJSTooltip(feature: JSFeature): vscode.MarkdownString {
+  public static createJSTooltip(feature: JSFeature, targets?: BrowserTargets): vscode.MarkdownString {
     const markdown = new vscode.MarkdownString();
     markdown.isTrusted = true;
     // @ts-ignore
     markdown.supportHtml = true;
 
     // Header with status emoji
-    const statusEmoji = this.getStatusEmoji(feature.status);
+    const status = targets ? targets.statusFor(feature) : feature.status;
+    const statusEmoji = this.getStatusEmoji(status);
     markdown.appendMarkdown(`### ${statusEmoji} ${feature.name}\n\n`);
 
     // API name
@@ -76,6 +102,11 @@ export class TooltipBuilder {
     // Status badge with timeline
     this.appendStatusSection(markdown, feature);
 
+    // Support across the configured browser targets
+    if (targets) {
+      this.appendTargetSection(markdown, feature, targets);
+    }
+
     // Description
     if (feature.description) {
       markdown.appendMarkdown(`${feature.description}\n\n`);
@@ -95,7 +126,7 @@ export class TooltipBuilder {
     this.appendJSExample(markdown, feature);
 
     // Migration tips for non-baseline features
-    if (feature.status !== 'baseline') {
+    if (status !== 'baseline') {
       this.appendJSMigrationTips(markdown, feature);
     }
 
@@ -121,6 +152,44 @@ export class TooltipBuilder {
     return emojis[status] || '❓';
   }
 
+  public static getBadgeStatus(match: FeatureMatch): BadgeStatus {
+    return match.guarded ? 'guarded' : match.status;
+  }
+
+  /**
+   * Inline badge text used when browser targets are configured
+   */
+  public static getTargetLabel(status: string): string {
+    const labels: Record<string, string> = {
+      'baseline': ' ✓ Supported by your targets',
+      'guarded': ' ◐ Progressively enhanced',
+      'limited': ' ⚠ Partially supported by your targets',
+      'not-baseline': ' ✗ Not supported by your targets'
+    };
+    return labels[status] || '';
+  }
+
+  /**
+   * Append which of the configured targets support the feature
+   */
+  private static appendTargetSection(
+    markdown: vscode.MarkdownString,
+    feature: BaselineFeature,
+    targets: BrowserTargets
+  ): void {
+    const support = targets.evaluate(feature);
+
+    markdown.appendMarkdown(`**Your targets:** \`${targets.query}\`\n\n`);
+    if (support.supported) {
+      markdown.appendMarkdown('✓ Supported by your targets\n\n');
+    } else {
+      support.missing.forEach(target => {
+        markdown.appendMarkdown(`- ✗ ${target}\n`);
+      });
+      markdown.appendMarkdown('\n');
+    }
+  }
+
   /**
    * Append status section with timeline
    */
@@ -181,22 +250,22 @@ export class TooltipBuilder {
    */
   private static appendCSSExample(markdown: vscode.MarkdownString, feature: CSSFeature): void {
     const examples: Record<string, string> = {
-      'css-flexbox': `.container {
+      'flexbox': `.container {
   display: flex;
   justify-content: space-between;
   align-items: center;
   gap: 1rem;
 }`,
-      'css-grid': `.grid {
+      'grid': `.grid {
   display: grid;
   grid-template-columns: repeat(3, 1fr);
   gap: 2rem;
 }`,
-      'css-gap': `.flex-container {
+      'flexbox-gap': `.flex-container {
   display: flex;
   gap: 1rem;
 }`,
-      'css-container-queries': `.card {
+      'container-queries': `.card {
   container-type: inline-size;
 }
 
@@ -205,7 +274,7 @@ export class TooltipBuilder {
     display: grid;
   }
 }`,
-      'css-backdrop-filter': `.glassmorphism {
+      'backdrop-filter': `.glassmorphism {
   background: rgba(255, 255, 255, 0.1);
   backdrop-filter: blur(10px);
 }`
@@ -223,7 +292,7 @@ export class TooltipBuilder {
    */
   private static appendJSExample(markdown: vscode.MarkdownString, feature: JSFeature): void {
     const examples: Record<string, string> = {
-      'fetch-api': `async function getData() {
+      'fetch': `async function getData() {
   const response = await fetch('/api/data');
   const data = await response.json();
   return data;
@@ -237,7 +306,7 @@ export class TooltipBuilder {
 });
 
 observer.observe(element);`,
-      'promises': `const promise = new Promise((resolve, reject) => {
+      'promise': `const promise = new Promise((resolve, reject) => {
   setTimeout(() => resolve('Done!'), 1000);
 });
 
@@ -283,30 +352,11 @@ localStorage.removeItem('user');`
   private static appendMigrationTips(markdown: vscode.MarkdownString, feature: CSSFeature): void {
     markdown.appendMarkdown(`**💡 Migration Tips:**\n\n`);
 
-    const tips: Record<string, string[]> = {
-      'css-container-queries': [
-        'Use `@supports` to detect support',
-        'Provide fallback layouts using media queries',
-        'Consider using PostCSS plugin for better support'
-      ],
-      'css-color-oklch': [
-        'Provide fallback colors using standard formats',
-        'Use progressive enhancement',
-        'Test thoroughly in target browsers'
-      ]
-    };
-
-    const featureTips = tips[feature.id];
-    if (featureTips) {
-      featureTips.forEach(tip => {
-        markdown.appendMarkdown(`- ${tip}\n`);
-      });
-      markdown.appendMarkdown('\n');
-    } else {
-      markdown.appendMarkdown(`- Test in your target browsers\n`);
-      markdown.appendMarkdown(`- Provide appropriate fallbacks\n`);
-      markdown.appendMarkdown(`- Consider feature detection\n\n`);
-    }
+    const tips = CSS_MIGRATIONS[feature.id]?.tips || DEFAULT_CSS_TIPS;
+    tips.forEach(tip => {
+      markdown.appendMarkdown(`- ${tip}\n`);
+    });
+    markdown.appendMarkdown('\n');
   }
 
   /**
@@ -315,30 +365,11 @@ localStorage.removeItem('user');`
   private static appendJSMigrationTips(markdown: vscode.MarkdownString, feature: JSFeature): void {
     markdown.appendMarkdown(`**💡 Migration Tips:**\n\n`);
 
-    const tips: Record<string, string[]> = {
-      'view-transitions': [
-        'Check for feature support: `if (document.startViewTransition)`',
-        'Provide fallback for browsers without support',
-        'Use progressive enhancement approach'
-      ],
-      'web-share-api': [
-        'Check `navigator.share` availability',
-        'Provide traditional sharing fallbacks',
-        'Graceful degradation for desktop browsers'
-      ]
-    };
-
-    const featureTips = tips[feature.id];
-    if (featureTips) {
-      featureTips.forEach(tip => {
-        markdown.appendMarkdown(`- ${tip}\n`);
-      });
-      markdown.appendMarkdown('\n');
-    } else {
-      markdown.appendMarkdown(`- Use feature detection before using API\n`);
-      markdown.appendMarkdown(`- Consider polyfills if needed\n`);
-      markdown.appendMarkdown(`- Provide graceful degradation\n\n`);
-    }
+    const tips = JS_MIGRATIONS[feature.id]?.tips || DEFAULT_JS_TIPS;
+    tips.forEach(tip => {
+      markdown.appendMarkdown(`- ${tip}\n`);
+    });
+    markdown.appendMarkdown('\n');
   }
 
   /**
@@ -0,0 +1,81 @@
+/**
+ * Convert CSS Color 4 notations to sRGB so they can be offered as fallbacks
+ */
+
+// 100% chroma or a/b in oklch()/oklab() stands for 0.4
+const OK_PERCENT_SCALE = 0.4;
+
+/**
+ * Convert the arguments of an oklch() or oklab() call, e.g.
+ * `70% 0.1 200 / 50%`, to an rgb() or rgba() color. Returns undefined for
+ * relative colors, `var()` and other arguments that need a browser to resolve.
+ */
+export function okColorToRgb(name: 'oklch' | 'oklab', args: string): string | undefined {
+  const [channels, alphaText] = args.split('/').map(part => part.trim());
+  const parts = channels.split(/\s+/);
+  if (parts.length !== 3) {
+    return undefined;
+  }
+
+  const lightness = parseNumber(parts[0], 1);
+  const alpha = alphaText === undefined ? 1 : parseNumber(alphaText, 1);
+  if (lightness === undefined || alpha === undefined) {
+    return undefined;
+  }
+
+  let a: number | undefined;
+  let b: number | undefined;
+  if (name === 'oklch') {
+    const chroma = parseNumber(parts[1], OK_PERCENT_SCALE);
+    const hue = parseNumber(parts[2].replace(/deg$/, ''), 1);
+    if (chroma === undefined || hue === undefined) {
+      return undefined;
+    }
+    a = chroma * Math.cos((hue * Math.PI) / 180);
+    b = chroma * Math.sin((hue * Math.PI) / 180);
+  } else {
+    a = parseNumber(parts[1], OK_PERCENT_SCALE);
+    b = parseNumber(parts[2], OK_PERCENT_SCALE);
+    if (a === undefined || b === undefined) {
+      return undefined;
+    }
+  }
+
+  const [red, green, blue] = oklabToSrgb(lightness, a, b).map(channel => Math.round(clamp(channel) * 255));
+  return alpha < 1
+    ? `rgba(${red}, ${green}, ${blue}, ${Number(alpha.toFixed(3))})`
+    : `rgb(${red}, ${green}, ${blue})`;
+}
+
+/**
+ * OKLab to gamma-encoded sRGB, per https://bottosson.github.io/posts/oklab/
+ */
+function oklabToSrgb(lightness: number, a: number, b: number): number[] {
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+
+  const linear = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  ];
+
+  return linear.map(channel => channel <= 0.0031308 ? 12.92 * channel : 1.055 * channel ** (1 / 2.4) - 0.055);
+}
+
+/**
+ * Parse a number or percentage; `percentScale` is the value of 100%
+ */
+function parseNumber(text: string, percentScale: number): number | undefined {
+  const match = /^(-?(?:\d+\.?\d*|\.\d+))(%?)$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = parseFloat(match[1]);
+  return match[2] ? (value / 100) * percentScale : value;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { detectCSS } from '@baseline/core';
 
 export interface CSSProperty {
   name: string;
@@ -15,33 +16,12 @@ export class CSSParser {
    * Extract all CSS properties from document
    */
   public extractCSSProperties(text: string, document: vscode.TextDocument): CSSProperty[] {
-    const properties: CSSProperty[] = [];
-    
-    // Regex to match CSS property declarations
-    // Matches: property-name: value;
-    const propertyRegex = /([\w-]+)\s*:\s*([^;]+);/g;
-    
-    let match;
-    while ((match = propertyRegex.exec(text)) !== null) {
-      const propertyName = match[1];
-      const propertyValue = match[2].trim();
-      const matchStart = match.index;
-      const matchEnd = matchStart + match[0].length;
-
-      // Get position and range
-      const startPos = document.positionAt(matchStart);
-      const endPos = document.positionAt(matchStart + propertyName.length);
-      const range = new vscode.Range(startPos, endPos);
-
-      properties.push({
-        name: propertyName,
-        value: propertyValue,
-        range: range,
-        line: startPos.line
-      });
-    }
-
-    return properties;
+    return detectCSS(text).filter(usage => usage.kind === 'property').map(usage => ({
+      name: usage.name,
+      value: usage.value,
+      range: new vscode.Range(document.positionAt(usage.start), document.positionAt(usage.end)),
+      line: usage.line
+    }));
   }
 
   /**